@@ -0,0 +1,231 @@
+import { createHash, randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { ForbiddenError } from "./authorization";
+import { container, InjectionToken } from "./container";
+import { recordDecorator } from "./introspection";
+import { Logger, redact, REDACTED, serializeError } from "./logger";
+import { currentPrincipal } from "./requestContext";
+import { currentTransaction, wasRolledBack } from "./transaction";
+
+export type AuditOutcome = "success" | "failure" | "rolled_back" | "denied";
+
+export interface AuditRecord {
+  id: string;
+  timestamp: string;
+  // Id del principal del request context, null si no hay
+  actor: string | null;
+  action: string;
+  args: unknown[];
+  result?: unknown;
+  outcome: AuditOutcome;
+  error?: { name: string; message: string };
+  durationMs: number;
+  transactionId?: string;
+}
+
+// Destino append-only: un sink nunca modifica ni borra registros
+export interface AuditSink {
+  append(record: AuditRecord): Promise<void>;
+}
+
+export class MemoryAuditSink implements AuditSink {
+  private stored: AuditRecord[] = [];
+
+  get records(): readonly AuditRecord[] {
+    return this.stored;
+  }
+
+  async append(record: AuditRecord): Promise<void> {
+    this.stored.push(record);
+  }
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  records: number;
+  // Línea (desde 1) donde se rompe la cadena
+  brokenAt?: number;
+}
+
+const GENESIS_HASH = "0".repeat(64);
+
+function chainHash(prevHash: string, payload: string): string {
+  return createHash("sha256").update(prevHash).update(payload).digest("hex");
+}
+
+// JSONL donde cada línea incluye el hash de la anterior: editar, borrar o
+// reordenar una línea rompe la cadena a partir de ese punto
+export class HashChainedFileSink implements AuditSink {
+  private lastHash?: string;
+  // Las escrituras se serializan para que la cadena no se bifurque
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private options: { file: string }) {}
+
+  append(record: AuditRecord): Promise<void> {
+    const write = this.queue.then(() => this.write(record));
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  async verify(): Promise<AuditVerification> {
+    const lines = (await this.readLines()).filter((line) => line.length > 0);
+    let prevHash = GENESIS_HASH;
+
+    for (const [index, line] of lines.entries()) {
+      try {
+        const { hash, ...entry } = JSON.parse(line);
+        const valid =
+          entry.prevHash === prevHash &&
+          hash === chainHash(prevHash, JSON.stringify(entry));
+        if (!valid) {
+          return { valid: false, records: index, brokenAt: index + 1 };
+        }
+        prevHash = hash;
+      } catch {
+        return { valid: false, records: index, brokenAt: index + 1 };
+      }
+    }
+    return { valid: true, records: lines.length };
+  }
+
+  private async write(record: AuditRecord) {
+    const prevHash = this.lastHash ?? (await this.readLastHash());
+    const entry = { ...record, prevHash };
+    const hash = chainHash(prevHash, JSON.stringify(entry));
+
+    await fs.mkdir(path.dirname(this.options.file), { recursive: true });
+    await fs.appendFile(
+      this.options.file,
+      `${JSON.stringify({ ...entry, hash })}\n`,
+      "utf8"
+    );
+    this.lastHash = hash;
+  }
+
+  // Continúa la cadena de un archivo existente
+  private async readLastHash(): Promise<string> {
+    const lines = (await this.readLines()).filter((line) => line.length > 0);
+    if (lines.length === 0) return GENESIS_HASH;
+    return JSON.parse(lines[lines.length - 1]).hash;
+  }
+
+  private async readLines(): Promise<string[]> {
+    try {
+      return (await fs.readFile(this.options.file, "utf8")).split("\n");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+}
+
+export const auditSink = new MemoryAuditSink();
+
+export const AUDIT_SINK = new InjectionToken<AuditSink>("AuditSink");
+container.register(AUDIT_SINK, { useValue: auditSink });
+
+const DEFAULT_REDACTED_FIELDS = ["password", "token", "secret"];
+
+// Resumen por defecto: nunca se guarda el resultado completo
+function summarizeResult(result: unknown): unknown {
+  if (result === null || result === undefined) return result;
+  if (Array.isArray(result)) return { count: result.length };
+  if (typeof result === "object") {
+    const { id } = result as { id?: unknown };
+    return id !== undefined ? { id } : { type: result.constructor?.name };
+  }
+  return result;
+}
+
+function outcomeOf(error: unknown): AuditOutcome {
+  if (error instanceof ForbiddenError) return "denied";
+  return wasRolledBack(error) ? "rolled_back" : "failure";
+}
+
+export function Audited(
+  options: {
+    // Por defecto "Clase.método"
+    action?: string;
+    sink?: AuditSink;
+    redact?: string[];
+    redactArgs?: number[];
+    summarize?: (result: any) => unknown;
+  } = {}
+) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ) {
+    const originalMethod = descriptor.value;
+    recordDecorator(target, propertyKey, { name: "Audited", options });
+    const action =
+      options.action ?? `${target.constructor.name}.${propertyKey}`;
+    const fields = options.redact ?? DEFAULT_REDACTED_FIELDS;
+    const summarize = options.summarize ?? summarizeResult;
+
+    descriptor.value = async function (...args: any[]) {
+      const sink = options.sink ?? container.resolve(AUDIT_SINK);
+      const startTime = Date.now();
+      const transaction = currentTransaction();
+      const base = {
+        timestamp: new Date(startTime).toISOString(),
+        actor: currentPrincipal()?.id ?? null,
+        action,
+        args: args.map((arg, index) =>
+          options.redactArgs?.includes(index) ? REDACTED : redact(arg, fields)
+        ),
+        transactionId: transaction?.id,
+      };
+
+      // Un fallo del sink no debe cambiar el resultado de la operación
+      const append = async (record: Omit<AuditRecord, "id">) => {
+        try {
+          await sink.append({ id: randomUUID(), ...record });
+        } catch (error) {
+          container.resolve(Logger).error(`Audit write failed for ${action}`, {
+            action,
+            error: serializeError(error),
+          });
+        }
+      };
+
+      let result: any;
+      try {
+        result = await originalMethod.apply(this, args);
+      } catch (error) {
+        await append({
+          ...base,
+          outcome: outcomeOf(error),
+          error: {
+            name: error instanceof Error ? error.name : "Error",
+            message: error instanceof Error ? error.message : String(error),
+          },
+          durationMs: Date.now() - startTime,
+        });
+        throw error;
+      }
+
+      const record = {
+        ...base,
+        result: summarize(result),
+        durationMs: Date.now() - startTime,
+      };
+
+      // Dentro de una transacción el resultado depende de cómo termine
+      if (transaction) {
+        transaction.onCommit(() => append({ ...record, outcome: "success" }));
+        transaction.onRollback(() =>
+          append({ ...record, outcome: "rolled_back" })
+        );
+      } else {
+        await append({ ...record, outcome: "success" });
+      }
+      return result;
+    };
+
+    return descriptor;
+  };
+}
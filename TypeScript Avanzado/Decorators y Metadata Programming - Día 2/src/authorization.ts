@@ -0,0 +1,156 @@
+import { container } from "./container";
+import { recordDecorator } from "./introspection";
+import { currentPrincipal, Principal } from "./requestContext";
+
+export class ForbiddenError extends Error {
+  constructor(
+    readonly action: string,
+    readonly reason: string,
+    readonly principalId?: string
+  ) {
+    super(`Forbidden: ${action} (${reason})`);
+    this.name = "ForbiddenError";
+  }
+}
+
+// Datos disponibles para las condiciones basadas en atributos
+export interface AccessContext {
+  principal: Principal;
+  action: string;
+  args: unknown[];
+}
+
+export type Grant =
+  string | { permission: string; when: (context: AccessContext) => boolean };
+
+export interface RoleDefinition {
+  // Roles cuyos permisos se heredan, p.ej. admin hereda de user
+  inherits?: string[];
+  // "*" concede todos los permisos
+  permissions?: Grant[];
+}
+
+export interface AccessDecision {
+  allowed: boolean;
+  reason: string;
+}
+
+export class PolicyEngine {
+  constructor(private roles: Record<string, RoleDefinition> = {}) {}
+
+  defineRole(name: string, definition: RoleDefinition): this {
+    this.roles[name] = definition;
+    return this;
+  }
+
+  // Roles del principal más todos los heredados
+  effectiveRoles(principal: Principal): Set<string> {
+    const result = new Set<string>();
+    const pending = [...principal.roles];
+
+    while (pending.length > 0) {
+      const role = pending.pop()!;
+      // Evita ciclos en la jerarquía
+      if (result.has(role)) continue;
+      result.add(role);
+      pending.push(...(this.roles[role]?.inherits ?? []));
+    }
+    return result;
+  }
+
+  hasRole(principal: Principal, role: string): boolean {
+    return this.effectiveRoles(principal).has(role);
+  }
+
+  authorize(
+    principal: Principal | undefined,
+    permission: string,
+    context: Omit<AccessContext, "principal"> = { action: permission, args: [] }
+  ): AccessDecision {
+    if (!principal) return { allowed: false, reason: "unauthenticated" };
+
+    let conditional = false;
+    for (const role of this.effectiveRoles(principal)) {
+      for (const grant of this.roles[role]?.permissions ?? []) {
+        if (typeof grant === "string") {
+          if (grant === permission || grant === "*") {
+            return { allowed: true, reason: `granted by role ${role}` };
+          }
+          continue;
+        }
+
+        if (grant.permission !== permission) continue;
+        conditional = true;
+        if (grant.when({ principal, ...context })) {
+          return { allowed: true, reason: `condition met for role ${role}` };
+        }
+      }
+    }
+
+    return {
+      allowed: false,
+      reason: conditional
+        ? `condition not met for ${permission}`
+        : `missing permission ${permission}`,
+    };
+  }
+}
+
+// Sin roles definidos todo se deniega; la aplicación registra el suyo
+export const policyEngine = new PolicyEngine();
+container.register(PolicyEngine, { useValue: policyEngine });
+
+function authorization(
+  name: "Roles" | "Requires",
+  options: Record<string, unknown>,
+  check: (
+    engine: PolicyEngine,
+    principal: Principal | undefined,
+    context: Omit<AccessContext, "principal">
+  ) => AccessDecision
+) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ) {
+    const originalMethod = descriptor.value;
+    recordDecorator(target, propertyKey, { name, options });
+    const action = `${target.constructor.name}.${propertyKey}`;
+
+    descriptor.value = async function (...args: any[]) {
+      const principal = currentPrincipal();
+      const engine = container.resolve(PolicyEngine);
+      const decision = check(engine, principal, { action, args });
+
+      if (!decision.allowed) {
+        throw new ForbiddenError(action, decision.reason, principal?.id);
+      }
+      return originalMethod.apply(this, args);
+    };
+
+    return descriptor;
+  };
+}
+
+// Permite la llamada si el principal tiene alguno de los roles (o los hereda)
+export function Roles(...roles: string[]) {
+  return authorization("Roles", { roles }, (engine, principal) => {
+    if (!principal) return { allowed: false, reason: "unauthenticated" };
+
+    const role = roles.find((role) => engine.hasRole(principal, role));
+    return role
+      ? { allowed: true, reason: `has role ${role}` }
+      : { allowed: false, reason: `requires role ${roles.join(" or ")}` };
+  });
+}
+
+// Permite la llamada si la policy concede el permiso para estos argumentos
+export function Requires(permission: string) {
+  return authorization(
+    "Requires",
+    { permission },
+    (engine, principal, context) =>
+      engine.authorize(principal, permission, context)
+  );
+}
@@ -0,0 +1,343 @@
+import { CacheStore, MemoryCacheStore } from "./cacheStore";
+import { container } from "./container";
+import { recordDecorator } from "./introspection";
+import { Logger, serializeError } from "./logger";
+import { MetricsRegistry } from "./metrics";
+
+type KeyGenerator = (...args: any[]) => string;
+type TagsOption = string[] | ((...args: any[]) => string[]);
+
+interface CachedFailure {
+  error: unknown;
+  expiry: number;
+  tags: string[];
+}
+
+// Registry central: conoce todos los stores. Los tags viven en cada entrada,
+// así las keys que el LRU descarta no quedan registradas para siempre
+export class CacheRegistry {
+  private stores = new Set<CacheStore>();
+  // Errores cacheados en memoria para conservar la instancia original
+  private failures = new Map<string, CachedFailure>();
+  // Cuántas veces se invalidó cada key o tag; una carga iniciada antes de
+  // una invalidación no debe guardar su resultado
+  private generations = new Map<string, number>();
+
+  registerStore(store: CacheStore) {
+    this.stores.add(store);
+  }
+
+  // Cambia cada vez que se invalida la key o cualquiera de sus tags
+  generation(key: string, tags: string[]): number {
+    return [key, ...tags].reduce(
+      (total, name) => total + (this.generations.get(name) ?? 0),
+      0
+    );
+  }
+
+  recordFailure(key: string, failure: CachedFailure) {
+    this.failures.set(key, failure);
+  }
+
+  // Error vigente para la key; los vencidos se descartan al consultarlos
+  failureFor(key: string): CachedFailure | undefined {
+    const failure = this.failures.get(key);
+    if (failure && failure.expiry <= Date.now()) {
+      this.failures.delete(key);
+      return undefined;
+    }
+    return failure;
+  }
+
+  // Acepta un tag o una key exacta; devuelve cuantas entradas se borraron.
+  // También borra los errores cacheados: una escritura puede corregirlos
+  async invalidate(tagOrKey: string): Promise<number> {
+    let removed = 0;
+    this.generations.set(tagOrKey, (this.generations.get(tagOrKey) ?? 0) + 1);
+
+    for (const [key, failure] of this.failures) {
+      if (key === tagOrKey || failure.tags.includes(tagOrKey)) {
+        this.failures.delete(key);
+        removed++;
+      }
+    }
+
+    for (const store of this.stores) {
+      const keys = new Set([tagOrKey, ...(await store.keysWithTag(tagOrKey))]);
+      for (const key of keys) {
+        if (await store.delete(key)) removed++;
+      }
+    }
+    return removed;
+  }
+
+  async clear() {
+    for (const store of this.stores) {
+      await store.clear();
+    }
+    this.failures.clear();
+  }
+}
+
+export const cacheRegistry = new CacheRegistry();
+
+// API programática para tooling de administración
+export function invalidate(tagOrKey: string): Promise<number> {
+  return cacheRegistry.invalidate(tagOrKey);
+}
+
+// Cache decorator con TTL, key generation y store configurable
+export function Cache(options: {
+  ttl: number;
+  keyGenerator?: KeyGenerator;
+  store?: CacheStore;
+  tags?: TagsOption;
+  registry?: CacheRegistry;
+  // Segundos en los que un valor expirado se sirve mientras se refresca
+  staleWhileRevalidate?: number;
+  // TTL para resultados null/undefined (0 = no cachearlos)
+  nullTtl?: number;
+  // TTL para errores (por defecto no se cachean)
+  errorTtl?: number;
+}) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ) {
+    const originalMethod = descriptor.value;
+    recordDecorator(target, propertyKey, { name: "Cache", options });
+    // Sin store explícito cada método mantiene su propia cache en memoria
+    const store = options.store ?? new MemoryCacheStore();
+    const registry = options.registry ?? cacheRegistry;
+    registry.registerStore(store);
+
+    // Llamadas en curso por key: los callers concurrentes comparten la promesa
+    const inFlight = new Map<
+      string,
+      { promise: Promise<any>; generation: number }
+    >();
+
+    const fields = { class: target.constructor.name, method: propertyKey };
+    const countLookup = (result: "hit" | "miss" | "stale" | "error") =>
+      container
+        .resolve(MetricsRegistry)
+        .counter("cache_requests_total", "Cache lookups by result")
+        .inc({ ...fields, result });
+
+    // Una llamada iniciada antes de una invalidación ya no se comparte: su
+    // resultado puede ser anterior a la escritura
+    const pendingLoad = (key: string, tags: string[]) => {
+      const pending = inFlight.get(key);
+      if (pending && pending.generation !== registry.generation(key, tags)) {
+        inFlight.delete(key);
+        return undefined;
+      }
+      return pending?.promise;
+    };
+
+    // background: refresh de stale-while-revalidate; si falla se sigue
+    // sirviendo el valor viejo en lugar de cachear el error
+    const load = (
+      self: any,
+      key: string,
+      args: any[],
+      background = false
+    ): Promise<any> => {
+      const tags = resolveTags(options.tags, args);
+      const pending = pendingLoad(key, tags);
+      if (pending) return pending;
+
+      const generation = registry.generation(key, tags);
+      const isCurrent = () => registry.generation(key, tags) === generation;
+      const promise = (async () => {
+        try {
+          const result = await originalMethod.apply(self, args);
+          const ttl =
+            result == null ? options.nullTtl ?? options.ttl : options.ttl;
+
+          // Guardar en cache
+          if (ttl > 0 && isCurrent()) {
+            await store.set(key, {
+              value: result,
+              expiry: Date.now() + ttl * 1000,
+              tags,
+            });
+          }
+          return result;
+        } catch (error) {
+          if (options.errorTtl && !background && isCurrent()) {
+            registry.recordFailure(key, {
+              error,
+              expiry: Date.now() + options.errorTtl * 1000,
+              tags,
+            });
+          }
+          throw error;
+        } finally {
+          // Tras una invalidación la key ya puede tener otra carga en curso
+          if (inFlight.get(key)?.generation === generation) {
+            inFlight.delete(key);
+          }
+        }
+      })();
+
+      inFlight.set(key, { promise, generation });
+      return promise;
+    };
+
+    descriptor.value = async function (...args: any[]) {
+      // Generar cache key
+      const key = options.keyGenerator
+        ? options.keyGenerator(...args)
+        : `${target.constructor.name}.${propertyKey}:${JSON.stringify(args)}`;
+
+      // Verificar negative cache de errores
+      const failure = registry.failureFor(key);
+      if (failure) {
+        container
+          .resolve(Logger)
+          .debug("Cache hit (error)", { ...fields, key });
+        countLookup("error");
+        throw failure.error;
+      }
+
+      // Verificar cache
+      const cached = await store.get(key);
+      if (cached && cached.expiry > Date.now()) {
+        container.resolve(Logger).debug("Cache hit", { ...fields, key });
+        countLookup("hit");
+        return cached.value;
+      }
+
+      // Stale-while-revalidate: servir el valor viejo y refrescar en background
+      const staleWindow = (options.staleWhileRevalidate ?? 0) * 1000;
+      if (cached && cached.expiry + staleWindow > Date.now()) {
+        if (!pendingLoad(key, resolveTags(options.tags, args))) {
+          load(this, key, args, true).catch((error) =>
+            container.resolve(Logger).error("Cache background refresh failed", {
+              ...fields,
+              key,
+              error: serializeError(error),
+            })
+          );
+        }
+        container
+          .resolve(Logger)
+          .debug("Cache stale, revalidating", { ...fields, key });
+        countLookup("stale");
+        return cached.value;
+      }
+
+      countLookup("miss");
+      if (pendingLoad(key, resolveTags(options.tags, args))) {
+        container
+          .resolve(Logger)
+          .debug("Cache miss, joining in-flight call", { ...fields, key });
+        return load(this, key, args);
+      }
+
+      // Ejecutar método original
+      const result = await load(this, key, args);
+      container
+        .resolve(Logger)
+        .debug("Cache miss, result cached", { ...fields, key });
+      return result;
+    };
+
+    return descriptor;
+  };
+}
+
+// Invalida keys y/o tags cuando un método de escritura se ejecuta
+export function CacheEvict(options: {
+  keys?: (...args: any[]) => string[];
+  tags?: TagsOption;
+  beforeInvocation?: boolean;
+  registry?: CacheRegistry;
+}) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ) {
+    const originalMethod = descriptor.value;
+    recordDecorator(target, propertyKey, { name: "CacheEvict", options });
+    const registry = options.registry ?? cacheRegistry;
+
+    const evict = async (args: any[]) => {
+      const targets = [
+        ...(options.keys ? options.keys(...args) : []),
+        ...resolveTags(options.tags, args),
+      ];
+
+      for (const tagOrKey of targets) {
+        await registry.invalidate(tagOrKey);
+      }
+      container.resolve(Logger).info("Cache evicted", {
+        class: target.constructor.name,
+        method: propertyKey,
+        targets,
+      });
+    };
+
+    descriptor.value = async function (...args: any[]) {
+      if (options.beforeInvocation) {
+        await evict(args);
+        return originalMethod.apply(this, args);
+      }
+
+      // Por defecto solo se invalida si la escritura tuvo éxito
+      const result = await originalMethod.apply(this, args);
+      await evict(args);
+      return result;
+    };
+
+    return descriptor;
+  };
+}
+
+// Siempre ejecuta el método y refresca la key con su resultado
+export function CachePut(options: {
+  ttl: number;
+  store: CacheStore;
+  keyGenerator: (result: any, ...args: any[]) => string;
+  tags?: TagsOption;
+  registry?: CacheRegistry;
+}) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ) {
+    const originalMethod = descriptor.value;
+    recordDecorator(target, propertyKey, { name: "CachePut", options });
+    const registry = options.registry ?? cacheRegistry;
+    registry.registerStore(options.store);
+
+    descriptor.value = async function (...args: any[]) {
+      const result = await originalMethod.apply(this, args);
+      const key = options.keyGenerator(result, ...args);
+
+      await options.store.set(key, {
+        value: result,
+        expiry: Date.now() + options.ttl * 1000,
+        tags: resolveTags(options.tags, args),
+      });
+
+      container.resolve(Logger).info("Cache put", {
+        class: target.constructor.name,
+        method: propertyKey,
+        key,
+      });
+      return result;
+    };
+
+    return descriptor;
+  };
+}
+
+function resolveTags(tags: TagsOption | undefined, args: any[]): string[] {
+  if (!tags) return [];
+  return typeof tags === "function" ? tags(...args) : tags;
+}
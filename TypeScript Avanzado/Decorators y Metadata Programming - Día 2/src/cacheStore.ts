@@ -0,0 +1,212 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+
+// Entrada guardada por el decorator @Cache
+export interface CacheEntry<T = any> {
+  value: T;
+  expiry: number;
+  // Viajan con la entrada: una eviction o un reinicio no dejan tags huérfanos
+  tags?: string[];
+}
+
+// Contrato que debe cumplir cualquier backend de cache
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  clear(): Promise<void>;
+  // Keys guardadas con ese tag, para invalidar en grupo
+  keysWithTag(tag: string): Promise<string[]>;
+}
+
+// Store en memoria con eviction LRU por numero de entradas y por bytes
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { entry: CacheEntry; size: number }>();
+  private totalBytes = 0;
+
+  constructor(
+    private options: { maxEntries?: number; maxBytes?: number } = {}
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const stored = this.entries.get(key);
+    if (!stored) return undefined;
+
+    // Re-insertar para marcarla como la mas reciente
+    this.entries.delete(key);
+    this.entries.set(key, stored);
+    return stored.entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const size = estimateSize(key, entry.value);
+    this.remove(key);
+
+    // Una entrada que no cabe sola nunca se guarda
+    if (this.options.maxBytes !== undefined && size > this.options.maxBytes) {
+      return;
+    }
+
+    this.entries.set(key, { entry, size });
+    this.totalBytes += size;
+    this.evict();
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.remove(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  async keysWithTag(tag: string): Promise<string[]> {
+    return [...this.entries]
+      .filter(([, stored]) => stored.entry.tags?.includes(tag))
+      .map(([key]) => key);
+  }
+
+  private remove(key: string): boolean {
+    const stored = this.entries.get(key);
+    if (!stored) return false;
+
+    this.entries.delete(key);
+    this.totalBytes -= stored.size;
+    return true;
+  }
+
+  private evict() {
+    const { maxEntries = Infinity, maxBytes = Infinity } = this.options;
+
+    // El primer elemento del Map es el menos usado recientemente
+    while (this.entries.size > maxEntries || this.totalBytes > maxBytes) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.remove(oldestKey);
+    }
+  }
+}
+
+// Store persistido en disco: un archivo JSON por key, sobrevive a reinicios
+export class FileCacheStore implements CacheStore {
+  constructor(private options: { directory: string }) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.fileFor(key), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+
+    try {
+      const stored = JSON.parse(raw, reviveValue);
+      // Colision de hash o archivo ajeno: tratar como miss
+      if (stored.key !== key) return undefined;
+      return { value: stored.value, expiry: stored.expiry, tags: stored.tags };
+    } catch {
+      // Archivo corrupto (p.ej. escritura interrumpida): descartarlo
+      await this.delete(key);
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await fs.mkdir(this.options.directory, { recursive: true });
+
+    const file = this.fileFor(key);
+    const tmpFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+    const data = JSON.stringify(
+      { key, value: entry.value, expiry: entry.expiry, tags: entry.tags },
+      replaceValue
+    );
+
+    // Escritura atómica: nunca se lee un archivo a medio escribir
+    await fs.writeFile(tmpFile, data, "utf8");
+    await fs.rename(tmpFile, file);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.fileFor(key));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    const files = await this.entryFiles();
+    await Promise.all(
+      files.map((file) =>
+        fs.unlink(file).catch((error) => {
+          // Otro proceso pudo borrarlo primero
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+        })
+      )
+    );
+  }
+
+  // Recorre los archivos: los tags escritos antes de un reinicio también cuentan
+  async keysWithTag(tag: string): Promise<string[]> {
+    const keys: string[] = [];
+    for (const file of await this.entryFiles()) {
+      try {
+        const stored = JSON.parse(await fs.readFile(file, "utf8"));
+        if (stored.tags?.includes(tag)) keys.push(stored.key);
+      } catch {
+        // Borrado en paralelo o corrupto: get() se encarga de descartarlo
+      }
+    }
+    return keys;
+  }
+
+  private async entryFiles(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.options.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    return files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => path.join(this.options.directory, file));
+  }
+
+  private fileFor(key: string): string {
+    const hash = createHash("sha1").update(key).digest("hex");
+    return path.join(this.options.directory, `${hash}.json`);
+  }
+}
+
+// Tamaño aproximado de una entrada serializada
+function estimateSize(key: string, value: unknown): number {
+  const serialized = JSON.stringify(value) ?? "";
+  return Buffer.byteLength(key) + Buffer.byteLength(serialized);
+}
+
+// JSON no conserva Dates: se guardan marcadas y se reconstruyen al leer
+function replaceValue(this: any, key: string, value: unknown) {
+  const raw = this[key];
+  return raw instanceof Date ? { $date: raw.toISOString() } : value;
+}
+
+function reviveValue(_key: string, value: any) {
+  if (value && typeof value === "object" && typeof value.$date === "string") {
+    return new Date(value.$date);
+  }
+  return value;
+}
@@ -0,0 +1,46 @@
+// Fuente de tiempo inyectable: permite probar límites sin esperar de verdad
+export interface Clock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+// Reloj manual: el tiempo solo avanza con advance()
+export class FakeClock implements Clock {
+  private timers: { at: number; resolve: () => void }[] = [];
+
+  constructor(private current = 0) {}
+
+  now(): number {
+    return this.current;
+  }
+
+  sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      this.timers.push({ at: this.current + ms, resolve });
+      this.timers.sort((a, b) => a.at - b.at);
+    });
+  }
+
+  // Avanza el tiempo y despierta, en orden, los sleeps vencidos
+  async advance(ms: number) {
+    const target = this.current + ms;
+
+    while (this.timers.length > 0 && this.timers[0].at <= target) {
+      const timer = this.timers.shift()!;
+      this.current = timer.at;
+      timer.resolve();
+      // Dejar correr las continuaciones antes del siguiente timer
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    this.current = target;
+  }
+
+  get pendingTimers(): number {
+    return this.timers.length;
+  }
+}
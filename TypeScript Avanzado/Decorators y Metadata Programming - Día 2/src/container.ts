@@ -0,0 +1,187 @@
+import "reflect-metadata";
+
+export type Scope = "singleton" | "transient" | "request";
+
+export type Constructor<T = any> = new (...args: any[]) => T;
+
+// Token para dependencias que no son clases (interfaces, configuración...)
+export class InjectionToken<T> {
+  // Solo a nivel de tipos, para que resolve() infiera T
+  readonly _type!: T;
+
+  constructor(readonly description: string) {}
+}
+
+export type Token<T = any> = Constructor<T> | InjectionToken<T>;
+
+export type Provider<T = any> =
+  | { useValue: T }
+  | { useClass: Constructor<T>; scope?: Scope }
+  | { useFactory: (container: Container) => T; scope?: Scope };
+
+export class ResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ResolutionError";
+  }
+}
+
+export class CircularDependencyError extends ResolutionError {
+  constructor(readonly path: Token[]) {
+    super(`Circular dependency detected: ${path.map(tokenName).join(" -> ")}`);
+    this.name = "CircularDependencyError";
+  }
+}
+
+const INJECTABLE = Symbol("di:injectable");
+const INJECT_TOKENS = Symbol("di:injectTokens");
+
+export function tokenName(token: Token): string {
+  return token instanceof InjectionToken ? token.description : token.name;
+}
+
+// Marca una clase como resoluble por el container
+export function Injectable(options: { scope?: Scope } = {}) {
+  return function (target: Constructor) {
+    Reflect.defineMetadata(INJECTABLE, options.scope ?? "singleton", target);
+  };
+}
+
+// Sobrescribe el tipo de un parámetro del constructor (p.ej. interfaces)
+export function Inject(token: Token) {
+  return function (
+    target: Object,
+    propertyKey: string | symbol | undefined,
+    parameterIndex: number
+  ) {
+    const tokens: Map<number, Token> =
+      Reflect.getOwnMetadata(INJECT_TOKENS, target) ?? new Map();
+    tokens.set(parameterIndex, token);
+    Reflect.defineMetadata(INJECT_TOKENS, tokens, target);
+  };
+}
+
+export class Container {
+  private providers: Map<Token, Provider>;
+  private singletons: Map<Token, any>;
+  // Solo existe en los scopes creados con createRequestScope()
+  private requestInstances?: Map<Token, any>;
+  // Tokens en resolución; incluye los resueltos desde factories
+  private resolving: Token[];
+  // Los singletons se construyen siempre desde aquí: así nunca capturan una
+  // instancia de un request
+  private root: Container;
+
+  constructor(parent?: Container) {
+    // Un request scope comparte registros y singletons con su padre
+    this.providers = parent ? parent.providers : new Map();
+    this.singletons = parent ? parent.singletons : new Map();
+    this.resolving = parent ? parent.resolving : [];
+    this.root = parent ? parent.root : this;
+    if (parent) this.requestInstances = new Map();
+  }
+
+  register<T>(token: Token<T>, provider: Provider<T>): this {
+    this.providers.set(token, provider);
+    this.singletons.delete(token);
+    return this;
+  }
+
+  createRequestScope(): Container {
+    return new Container(this);
+  }
+
+  resolve<T>(token: Token<T>): T {
+    const path = this.resolving;
+    if (path.includes(token)) {
+      throw new CircularDependencyError([...path, token]);
+    }
+
+    path.push(token);
+    try {
+      return this.resolveToken(token);
+    } finally {
+      path.pop();
+    }
+  }
+
+  private resolveToken<T>(token: Token<T>): T {
+    const path = this.resolving.slice(0, -1);
+    const via = path.length
+      ? ` (required by ${path.map(tokenName).join(" -> ")})`
+      : "";
+    const provider = this.providers.get(token) ?? this.implicitProvider(token);
+    if (!provider) {
+      throw new ResolutionError(
+        `No provider registered for ${tokenName(token)}${via}`
+      );
+    }
+
+    if ("useValue" in provider) return provider.useValue;
+
+    const scope = provider.scope ?? "singleton";
+    const instances =
+      scope === "singleton"
+        ? this.singletons
+        : scope === "request"
+        ? this.requestInstances
+        : undefined;
+
+    if (scope === "request" && !instances) {
+      const name = tokenName(token);
+      throw new ResolutionError(
+        `${name} is request-scoped and must be resolved from a request scope` +
+          via
+      );
+    }
+    if (instances?.has(token)) return instances.get(token);
+
+    const owner = scope === "singleton" ? this.root : this;
+    const instance =
+      "useFactory" in provider
+        ? provider.useFactory(owner)
+        : owner.construct(provider.useClass);
+
+    instances?.set(token, instance);
+    return instance;
+  }
+
+  // Las clases @Injectable no necesitan registro explícito
+  private implicitProvider(token: Token): Provider | undefined {
+    if (token instanceof InjectionToken) return undefined;
+
+    const scope: Scope | undefined = Reflect.getOwnMetadata(INJECTABLE, token);
+    return scope ? { useClass: token, scope } : undefined;
+  }
+
+  private construct<T>(target: Constructor<T>): T {
+    const paramTypes: unknown[] =
+      Reflect.getOwnMetadata("design:paramtypes", target) ?? [];
+    const injectTokens: Map<number, Token> =
+      Reflect.getOwnMetadata(INJECT_TOKENS, target) ?? new Map();
+
+    if (paramTypes.length < target.length) {
+      throw new ResolutionError(
+        `Missing constructor metadata for ${target.name}; add @Injectable()`
+      );
+    }
+
+    const args = paramTypes.map((type, index) => {
+      const token = injectTokens.get(index) ?? type;
+
+      // Las interfaces se emiten como Object y los imports circulares como undefined
+      if (!token || token === Object) {
+        throw new ResolutionError(
+          `Cannot infer parameter #${index} of ${target.name}; use @Inject(token)`
+        );
+      }
+
+      return this.resolve(token as Token);
+    });
+
+    return new target(...args);
+  }
+}
+
+// Container raíz de la aplicación
+export const container = new Container();
@@ -0,0 +1,19 @@
+export type IssuePath = (string | number)[];
+
+export interface ValidationIssue {
+  path: IssuePath;
+  message: string;
+}
+
+export class ValidationError extends Error {
+  constructor(message: string, readonly issues: ValidationIssue[] = []) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
+
+// "0.email: Expected string" para mensajes legibles
+export function formatIssue(issue: ValidationIssue): string {
+  const path = issue.path.join(".");
+  return path ? `${path}: ${issue.message}` : issue.message;
+}
@@ -1,224 +1,132 @@
 import "reflect-metadata";
-
-// Validation decorator con schema support
-function Validate(schema: any) {
-  return function (
-    target: any,
-    propertyKey: string,
-    descriptor: PropertyDescriptor
-  ) {
-    const originalMethod = descriptor.value;
-
-    descriptor.value = async function (...args: any[]) {
-      // Validar argumentos contra schema
-      for (let i = 0; i < args.length; i++) {
-        const result = schema.validate(args[i]);
-        if (result.error) {
-          throw new ValidationError(
-            `Validation failed for parameter ${i}: ${result.error.message}`
-          );
-        }
-      }
-
-      return originalMethod.apply(this, args);
-    };
-
-    return descriptor;
-  };
-}
-
-// Cache decorator con TTL y key generation
-function Cache(options: {
-  ttl: number;
-  keyGenerator?: (...args: any[]) => string;
-}) {
-  return function (
-    target: any,
-    propertyKey: string,
-    descriptor: PropertyDescriptor
-  ) {
-    const originalMethod = descriptor.value;
-    const cache = new Map<string, { value: any; expiry: number }>();
-
-    descriptor.value = async function (...args: any[]) {
-      // Generar cache key
-      const key = options.keyGenerator
-        ? options.keyGenerator(...args)
-        : `${target.constructor.name}.${propertyKey}:${JSON.stringify(args)}`;
-
-      // Verificar cache
-      const cached = cache.get(key);
-      if (cached && cached.expiry > Date.now()) {
-        console.log(`Cache hit for key: ${key}`);
-        return cached.value;
-      }
-
-      // Ejecutar método original
-      const result = await originalMethod.apply(this, args);
-
-      // Guardar en cache
-      cache.set(key, {
-        value: result,
-        expiry: Date.now() + options.ttl * 1000,
-      });
-
-      console.log(`Cache miss for key: ${key}, result cached`);
-      return result;
-    };
-
-    return descriptor;
-  };
-}
-
-// Logging decorator con performance metrics
-function Log(
-  options: { level: "debug" | "info" | "warn" | "error" } = { level: "info" }
-) {
-  return function (
-    target: any,
-    propertyKey: string,
-    descriptor: PropertyDescriptor
-  ) {
-    const originalMethod = descriptor.value;
-
-    descriptor.value = async function (...args: any[]) {
-      const startTime = Date.now();
-      const className = target.constructor.name;
-
-      console.log(
-        `[${options.level.toUpperCase()}] ${className}.${propertyKey} called with args:`,
-        args
-      );
-
-      try {
-        const result = await originalMethod.apply(this, args);
-        const duration = Date.now() - startTime;
-
-        console.log(
-          `[${options.level.toUpperCase()}] ${className}.${propertyKey} completed in ${duration}ms`
-        );
-        return result;
-      } catch (error) {
-        const duration = Date.now() - startTime;
-        console.error(
-          `[ERROR] ${className}.${propertyKey} failed after ${duration}ms:`,
-          error
-        );
-        throw error;
-      }
-    };
-
-    return descriptor;
-  };
-}
-
-// Retry decorator para resilience
-function Retry(options: { attempts: number; delay: number; backoff?: number }) {
-  return function (
-    target: any,
-    propertyKey: string,
-    descriptor: PropertyDescriptor
-  ) {
-    const originalMethod = descriptor.value;
-
-    descriptor.value = async function (...args: any[]) {
-      let lastError: Error;
-
-      for (let attempt = 1; attempt <= options.attempts; attempt++) {
-        try {
-          return await originalMethod.apply(this, args);
-        } catch (error) {
-          lastError = error as Error;
-
-          if (attempt === options.attempts) {
-            throw error;
-          }
-
-          const delay =
-            options.delay * Math.pow(options.backoff || 1, attempt - 1);
-          console.log(`Attempt ${attempt} failed, retrying in ${delay}ms...`);
-          await new Promise((resolve) => setTimeout(resolve, delay));
-        }
-      }
-
-      throw lastError!;
-    };
-
-    return descriptor;
-  };
-}
-
-//Transaction decorator
-function Transaction() {
-  return function (
-    target: Object,
-    propertyKey: string | symbol,
-    descriptor: PropertyDescriptor
-  ): PropertyDescriptor | void {
-    if (!descriptor) return;
-    const originalMethod = descriptor.value;
-
-    descriptor.value = async function (...args: any[]) {
-      console.log(`Iniciando transacción para ${String(propertyKey)}`);
-
-      try {
-        const result = await originalMethod.apply(this, args);
-
-        console.log(
-          `Transaccion ${String(propertyKey)} se completo con exito.`
-        );
-
-        return result;
-      } catch (error) {
-        console.error(`transaccion ${String(propertyKey)} fallo:`, error);
-
-        console.log(`Transaccion ${String(propertyKey)} rolled back.`);
-
-        throw error;
-      } finally {
-        console.log(`Transaccion ${String(propertyKey)} terminada`);
-      }
-    };
-
-    return descriptor;
-  };
-}
-
-// Schema simple para validation
-const CreateUserSchema = {
-  validate: (data: any) => {
-    if (!data || typeof data !== "object") {
-      return { error: { message: "Data must be an object" } };
-    }
-
-    if (!data.email || typeof data.email !== "string") {
-      return { error: { message: "Email is required and must be a string" } };
-    }
-
-    if (!data.name || typeof data.name !== "string") {
-      return { error: { message: "Name is required and must be a string" } };
-    }
-
-    return { error: null };
-  },
+import * as os from "os";
+import * as path from "path";
+import { setTimeout as sleep } from "timers/promises";
+import { AUDIT_SINK, Audited, HashChainedFileSink } from "./audit";
+import { ForbiddenError, PolicyEngine, Requires, Roles } from "./authorization";
+import { Cache, CacheEvict, CachePut, invalidate } from "./cache";
+import { FileCacheStore, MemoryCacheStore } from "./cacheStore";
+import { container, Inject, Injectable, InjectionToken } from "./container";
+import {
+  checkDecoratorComposition,
+  describeDecoratorChain,
+} from "./introspection";
+import { Log } from "./log";
+import { Logger } from "./logger";
+import { Bulkhead, CircuitBreaker, currentSignal, Timeout } from "./resilience";
+import { keyBy, RateLimit, tokenBucket } from "./rateLimit";
+import { metricsRegistry, Timed } from "./metrics";
+import { runWithRequestContext } from "./requestContext";
+import { Retry, RetryBudget, RetryPolicy } from "./retry";
+import { Infer, s } from "./schema";
+import {
+  onRollback,
+  Transaction,
+  TransactionalKeyValueStore,
+} from "./transaction";
+import { Body, Validate } from "./validate";
+
+// Schema tipado para validation
+const CreateUserSchema = s.object({
+  email: s.string().refine((email) => email.includes("@"), "Invalid email"),
+  name: s.string().refine((name) => name.trim().length > 0, "Name is required"),
+});
+
+type CreateUserInput = Infer<typeof CreateUserSchema>;
+
+// Stores compartidos entre instancias del service
+const userCacheStore = new FileCacheStore({
+  directory: path.join(os.tmpdir(), "user-service-cache"),
+});
+const countCacheStore = new MemoryCacheStore({
+  maxEntries: 1000,
+  maxBytes: 1024 * 1024,
+});
+
+// Budget compartido por todos los métodos que acceden a la base de datos
+const databaseRetryPolicy: RetryPolicy = {
+  attempts: 3,
+  delay: 1000,
+  backoff: 2,
+  maxDelay: 5000,
+  jitter: "full",
+  maxElapsed: 10_000,
+  budget: new RetryBudget({ ratio: 0.2, minRetriesPerSecond: 1 }),
 };
 
+// Registro de auditoría a prueba de manipulación
+const auditLog = new HashChainedFileSink({
+  file: path.join(os.tmpdir(), "user-service-audit.jsonl"),
+});
+container.register(AUDIT_SINK, { useValue: auditLog });
+
+// Policies: un admin puede todo lo de un user y además borrar
+container.register(PolicyEngine, {
+  useValue: new PolicyEngine({
+    user: {
+      permissions: [
+        "users:read",
+        {
+          // Un user solo puede modificar su propio registro
+          permission: "users:update",
+          when: ({ principal, args }) =>
+            args[0] === principal.attributes?.email,
+        },
+      ],
+    },
+    admin: {
+      inherits: ["user"],
+      permissions: ["users:create", "users:update", "users:delete"],
+    },
+  }),
+});
+
+// Dependencias del service registradas en el container
+const OPERATIONS_STORE = new InjectionToken<TransactionalKeyValueStore<string>>(
+  "OperationsStore"
+);
+container.register(OPERATIONS_STORE, {
+  useFactory: () => new TransactionalKeyValueStore<string>(),
+});
+
 // Service usando decorators
+@Injectable()
 class UserService {
-  @Log({ level: "info" })
+  private users = new Map<string, User>();
+
+  constructor(
+    private logger: Logger,
+    @Inject(OPERATIONS_STORE)
+    private operations: TransactionalKeyValueStore<string>
+  ) {}
+
+  @Log({ level: "info", redactArgs: [0] })
+  @Timed()
   @Cache({
     ttl: 300,
     keyGenerator: (email: string) => `user:email:${email}`,
+    store: userCacheStore,
+    tags: ["users"],
+    staleWhileRevalidate: 60,
+    nullTtl: 30,
+  })
+  @Bulkhead({ maxConcurrent: 10, maxQueue: 50 })
+  @Retry(databaseRetryPolicy)
+  @CircuitBreaker({
+    failureRateThreshold: 0.5,
+    windowSize: 20,
+    minimumCalls: 5,
+    openDuration: 30_000,
   })
-  @Retry({ attempts: 3, delay: 1000, backoff: 2 })
+  @Timeout(2000)
   async findByEmail(email: string): Promise<User | null> {
     // Simular operación que puede fallar
     if (Math.random() < 0.3) {
       throw new Error("Database connection failed");
     }
 
-    // Simular delay de database
-    await new Promise((resolve) => setTimeout(resolve, 100));
+    // Simular delay de database (se cancela si vence el timeout)
+    await sleep(100, undefined, { signal: currentSignal() });
 
     return {
       id: "1",
@@ -228,10 +136,26 @@ class UserService {
     };
   }
 
-  @Log({ level: "info" })
-  @Validate(CreateUserSchema)
-  @Cache({ ttl: 600, keyGenerator: () => "users:count" })
-  async createUser(userData: { email: string; name: string }): Promise<User> {
+  @Log({ level: "info", redact: ["email", "password"] })
+  @Audited({ redact: ["password"] })
+  @Roles("admin")
+  @RateLimit({
+    algorithm: tokenBucket({ capacity: 5, refillPerSecond: 1 }),
+    key: keyBy.principal(),
+    onLimit: "delay",
+    maxWait: 2000,
+  })
+  @Validate()
+  @CacheEvict({ keys: () => ["users:count"] })
+  @CachePut({
+    ttl: 300,
+    store: userCacheStore,
+    keyGenerator: (user: User) => `user:email:${user.email}`,
+    tags: ["users"],
+  })
+  async createUser(
+    @Body(CreateUserSchema) userData: CreateUserInput
+  ): Promise<User> {
     // Business logic puro
     const user: User = {
       id: `user_${Date.now()}`,
@@ -240,19 +164,68 @@ class UserService {
       createdAt: new Date(),
     };
 
-    console.log("Creating user:", user);
+    this.logger.info("Creating user", { userId: user.id });
+    this.users.set(user.email, user);
     return user;
   }
 
+  @Cache({
+    ttl: 600,
+    keyGenerator: () => "users:count",
+    store: countCacheStore,
+    tags: ["users"],
+  })
+  async countUsers(): Promise<number> {
+    return this.users.size;
+  }
+
+  @Log({ level: "info", redactArgs: [0] })
+  @Audited()
+  @Requires("users:update")
+  @CacheEvict({ keys: (email: string) => [`user:email:${email}`] })
+  async updateUser(email: string, changes: { name: string }): Promise<User> {
+    const user = this.users.get(email);
+    if (!user) throw new Error(`User ${email} not found`);
+
+    const updated = { ...user, name: changes.name };
+    this.users.set(email, updated);
+    return updated;
+  }
+
+  @Log({ level: "info", redactArgs: [0] })
+  @Audited()
+  @Requires("users:delete")
+  @CacheEvict({
+    keys: (email: string) => [`user:email:${email}`, "users:count"],
+  })
+  async deleteUser(email: string): Promise<boolean> {
+    return this.users.delete(email);
+  }
+
+  @Audited()
   @Transaction()
   async makeOperation() {
     console.log("Operación en proceso...");
+    this.operations.set(`op_${Date.now()}`, "completed");
+    await this.recordOperationLog("makeOperation");
+    onRollback(() => console.log("Compensando operación..."));
+
     if (Math.random() < 0.5) {
       throw new Error("Error en la operación");
     }
     console.log("Operación exitosa");
     return "Operación exitosa";
   }
+
+  // Savepoint: si la transacción del caller falla también se deshace
+  get operationCount(): number {
+    return this.operations.size;
+  }
+
+  @Transaction({ propagation: "NESTED" })
+  async recordOperationLog(operation: string) {
+    this.operations.set(`log_${Date.now()}`, operation);
+  }
 }
 
 // Interfaces
@@ -263,25 +236,31 @@ interface User {
   createdAt: Date;
 }
 
-class ValidationError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "ValidationError";
-  }
-}
-
 // Uso del service
 async function demonstrateDecorators() {
-  const userService = new UserService();
-  try {
-    const transactionResult = await userService.makeOperation();
-    console.log("Transaction result:", transactionResult);
+  // Validar el orden de los decorators antes de usar el service
+  checkDecoratorComposition(UserService);
+  console.log(describeDecoratorChain(UserService, "findByEmail"));
 
-    // Test validation
-    await userService.createUser({
-      email: "john@example.com",
-      name: "John Doe",
-    });
+  const userService = container.resolve(UserService);
+  try {
+    try {
+      const transactionResult = await userService.makeOperation();
+      console.log("Transaction result:", transactionResult);
+    } catch (error) {
+      console.error("Transaction failed:", (error as Error).message);
+    }
+    // Tras un rollback no queda ninguna escritura de la operación
+    console.log("Stored operations:", userService.operationCount);
+
+    // Test validation; el actor queda en el registro de auditoría
+    const admin = { id: "admin", roles: ["admin"] };
+    await runWithRequestContext({ principal: admin }, () =>
+      userService.createUser({
+        email: "john@example.com",
+        name: "John Doe",
+      })
+    );
 
     // Test caching y retry
     const user = await userService.findByEmail("john@example.com");
@@ -290,6 +269,47 @@ async function demonstrateDecorators() {
     // Second call should hit cache
     const cachedUser = await userService.findByEmail("john@example.com");
     console.log("Cached user:", cachedUser);
+
+    // Callers concurrentes con key fría comparten una sola ejecución
+    const concurrent = await Promise.all(
+      Array.from({ length: 5 }, () =>
+        userService.findByEmail("jane@example.com")
+      )
+    );
+    console.log("Concurrent lookups:", concurrent.length);
+
+    // Count cacheado hasta la siguiente escritura
+    console.log("Users:", await userService.countUsers());
+
+    // Un user puede editar su propio registro pero no borrarlo
+    const john = {
+      id: "john",
+      roles: ["user"],
+      attributes: { email: "john@example.com" },
+    };
+    await runWithRequestContext({ principal: john }, async () => {
+      await userService.updateUser("john@example.com", { name: "Johnny" });
+      try {
+        await userService.deleteUser("john@example.com");
+      } catch (error) {
+        if (!(error instanceof ForbiddenError)) throw error;
+        console.log("Denied:", error.reason);
+      }
+    });
+
+    await runWithRequestContext({ principal: admin }, () =>
+      userService.deleteUser("john@example.com")
+    );
+    console.log("Users after delete:", await userService.countUsers());
+
+    // Flush manual de todas las entradas con tag "users"
+    const removed = await invalidate("users");
+    console.log(`Invalidated ${removed} cache entries`);
+
+    console.log("Audit log:", await auditLog.verify());
+
+    // Métricas listas para scrapear
+    console.log(metricsRegistry.toPrometheus());
   } catch (error) {
     console.error("Error:", error);
   }
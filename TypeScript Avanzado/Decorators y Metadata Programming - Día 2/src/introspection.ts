@@ -0,0 +1,159 @@
+import "reflect-metadata";
+import { container } from "./container";
+import { Logger } from "./logger";
+
+const DECORATOR_CHAIN = Symbol("decorators:chain");
+
+export interface DecoratorRecord {
+  name: string;
+  options?: unknown;
+}
+
+export interface CompositionWarning {
+  rule: string;
+  method: string;
+  message: string;
+}
+
+// Clases con al menos un método decorado, para el chequeo de arranque
+const decoratedClasses = new Set<Function>();
+
+// Cada decorator se registra al aplicarse. Como TypeScript los aplica de
+// abajo hacia arriba, insertar al inicio deja la cadena de afuera hacia adentro
+export function recordDecorator(
+  target: Object,
+  propertyKey: string | symbol,
+  record: DecoratorRecord
+) {
+  const chain: DecoratorRecord[] =
+    Reflect.getOwnMetadata(DECORATOR_CHAIN, target, propertyKey) ?? [];
+  Reflect.defineMetadata(
+    DECORATOR_CHAIN,
+    [record, ...chain],
+    target,
+    propertyKey
+  );
+  decoratedClasses.add(target.constructor);
+}
+
+function prototypeOf(target: Function | Object): Object {
+  return typeof target === "function" ? target.prototype : target;
+}
+
+// Wrappers de un método, del más externo al más interno
+export function getDecoratorChain(
+  target: Function | Object,
+  method: string | symbol
+): DecoratorRecord[] {
+  return (
+    Reflect.getMetadata(DECORATOR_CHAIN, prototypeOf(target), method) ?? []
+  );
+}
+
+export function describeDecoratorChain(
+  target: Function | Object,
+  method: string | symbol
+): string {
+  const names = getDecoratorChain(target, method).map(
+    (record) => `@${record.name}`
+  );
+  return [...names, String(method)].join(" -> ");
+}
+
+// Métodos decorados de una clase con su cadena
+export function getDecoratedMethods(
+  target: Function | Object
+): Map<string, DecoratorRecord[]> {
+  const prototype = prototypeOf(target);
+  const methods = new Map<string, DecoratorRecord[]>();
+
+  for (const name of Object.getOwnPropertyNames(prototype)) {
+    const chain = getDecoratorChain(prototype, name);
+    if (chain.length > 0) methods.set(name, chain);
+  }
+  return methods;
+}
+
+interface CompositionRule {
+  id: string;
+  message: string;
+  // Recibe los nombres de la cadena, de afuera hacia adentro
+  violated(chain: string[]): boolean;
+}
+
+const isAbove = (chain: string[], outer: string, inner: string) =>
+  chain.includes(outer) &&
+  chain.includes(inner) &&
+  chain.indexOf(outer) < chain.indexOf(inner);
+
+const COMPOSITION_RULES: CompositionRule[] = [
+  {
+    id: "cache-with-transaction",
+    message:
+      "@Cache on a @Transaction method: a cache hit skips the transaction and a rolled-back result may be cached",
+    violated: (chain) =>
+      chain.includes("Cache") && chain.includes("Transaction"),
+  },
+  {
+    id: "validate-below-retry",
+    message:
+      "@Validate is below @Retry: invalid input is re-validated on every attempt; place @Validate above @Retry",
+    violated: (chain) => isAbove(chain, "Retry", "Validate"),
+  },
+  {
+    id: "cache-below-retry",
+    message:
+      "@Cache is below @Retry: every retry re-checks the cache; place @Cache above @Retry",
+    violated: (chain) => isAbove(chain, "Retry", "Cache"),
+  },
+  {
+    id: "circuit-breaker-above-retry",
+    message:
+      "@CircuitBreaker is above @Retry: the circuit only sees the final failure of each call; place it below @Retry",
+    violated: (chain) => isAbove(chain, "CircuitBreaker", "Retry"),
+  },
+  {
+    id: "log-below-cache",
+    message: "@Log is below @Cache: cache hits will not be logged",
+    violated: (chain) => isAbove(chain, "Cache", "Log"),
+  },
+  {
+    id: "audited-below-cache",
+    message: "@Audited is below @Cache: cache hits will not be audited",
+    violated: (chain) => isAbove(chain, "Cache", "Audited"),
+  },
+  {
+    id: "authorization-below-cache",
+    message:
+      "@Roles/@Requires is below @Cache: cache hits skip the authorization check",
+    violated: (chain) =>
+      isAbove(chain, "Cache", "Roles") || isAbove(chain, "Cache", "Requires"),
+  },
+];
+
+// Chequeo de arranque: sin argumentos revisa todas las clases decoradas
+export function checkDecoratorComposition(
+  ...targets: Function[]
+): CompositionWarning[] {
+  const warnings: CompositionWarning[] = [];
+  const classes = targets.length > 0 ? targets : [...decoratedClasses];
+
+  for (const target of classes) {
+    for (const [name, chain] of getDecoratedMethods(target)) {
+      const names = chain.map((record) => record.name);
+      const method = `${target.name}.${name}`;
+
+      for (const rule of COMPOSITION_RULES) {
+        if (rule.violated(names)) {
+          warnings.push({ rule: rule.id, method, message: rule.message });
+        }
+      }
+    }
+  }
+
+  const logger = container.resolve(Logger);
+  for (const warning of warnings) {
+    logger.warn(`${warning.method}: ${warning.message}`, { ...warning });
+  }
+  return warnings;
+}
@@ -0,0 +1,78 @@
+import { ForbiddenError } from "./authorization";
+import { container } from "./container";
+import { LogLevel, Logger, redact, REDACTED, serializeError } from "./logger";
+import { recordDecorator } from "./introspection";
+
+// Logging decorator con performance metrics y registros estructurados
+export function Log(
+  options: {
+    level: LogLevel;
+    logger?: Logger;
+    // Nombres de campo a ocultar en los argumentos (a cualquier profundidad)
+    redact?: string[];
+    // Posiciones de argumentos a ocultar completos (p.ej. un email suelto)
+    redactArgs?: number[];
+  } = { level: "info" }
+) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ) {
+    const originalMethod = descriptor.value;
+    recordDecorator(target, propertyKey, { name: "Log", options });
+    descriptor.value = async function (...args: any[]) {
+      const logger = options.logger ?? container.resolve(Logger);
+      const startTime = Date.now();
+      const fields = {
+        class: target.constructor.name,
+        method: propertyKey,
+      };
+
+      if (logger.isEnabled(options.level)) {
+        const safeArgs = args.map((arg, index) =>
+          options.redactArgs?.includes(index)
+            ? REDACTED
+            : redact(arg, options.redact ?? [])
+        );
+        logger.log(options.level, `${fields.class}.${propertyKey} called`, {
+          ...fields,
+          args: safeArgs,
+        });
+      }
+
+      try {
+        const result = await originalMethod.apply(this, args);
+
+        logger.log(options.level, `${fields.class}.${propertyKey} completed`, {
+          ...fields,
+          durationMs: Date.now() - startTime,
+          outcome: "success",
+        });
+        return result;
+      } catch (error) {
+        // Una denegación es un resultado esperado, no un fallo del método
+        if (error instanceof ForbiddenError) {
+          logger.warn(`${fields.class}.${propertyKey} forbidden`, {
+            ...fields,
+            durationMs: Date.now() - startTime,
+            outcome: "forbidden",
+            principal: error.principalId,
+            reason: error.reason,
+          });
+          throw error;
+        }
+
+        logger.error(`${fields.class}.${propertyKey} failed`, {
+          ...fields,
+          durationMs: Date.now() - startTime,
+          outcome: "error",
+          error: serializeError(error),
+        });
+        throw error;
+      }
+    };
+
+    return descriptor;
+  };
+}
@@ -0,0 +1,186 @@
+import * as fs from "fs";
+import { container } from "./container";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+export interface LogRecord {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  fields: Record<string, unknown>;
+}
+
+// Destino de los registros: consola, archivo, memoria...
+export interface LogSink {
+  write(record: LogRecord): void;
+}
+
+// Una linea JSON por registro
+export function formatRecord(record: LogRecord): string {
+  return JSON.stringify({
+    timestamp: record.timestamp,
+    level: record.level,
+    message: record.message,
+    ...record.fields,
+  });
+}
+
+export class ConsoleSink implements LogSink {
+  write(record: LogRecord) {
+    const line = formatRecord(record);
+    if (record.level === "error") {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+// Guarda los registros en memoria para poder inspeccionarlos en tests
+export class MemorySink implements LogSink {
+  records: LogRecord[] = [];
+
+  write(record: LogRecord) {
+    this.records.push(record);
+  }
+
+  clear() {
+    this.records = [];
+  }
+}
+
+// Archivo que rota a file.1, file.2... al superar maxBytes
+export class RotatingFileSink implements LogSink {
+  private currentSize: number;
+
+  constructor(
+    private options: { file: string; maxBytes: number; maxFiles?: number }
+  ) {
+    this.currentSize = fs.existsSync(options.file)
+      ? fs.statSync(options.file).size
+      : 0;
+  }
+
+  write(record: LogRecord) {
+    const line = `${formatRecord(record)}\n`;
+    const size = Buffer.byteLength(line);
+
+    if (
+      this.currentSize > 0 &&
+      this.currentSize + size > this.options.maxBytes
+    ) {
+      this.rotate();
+    }
+
+    fs.appendFileSync(this.options.file, line, "utf8");
+    this.currentSize += size;
+  }
+
+  private rotate() {
+    const { file, maxFiles = 5 } = this.options;
+
+    // Descartar el más antiguo antes de desplazar file.N-1 -> file.N: quedan
+    // maxFiles archivos rotados
+    fs.rmSync(`${file}.${maxFiles}`, { force: true });
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      const from = `${file}.${index}`;
+      if (fs.existsSync(from)) fs.renameSync(from, `${file}.${index + 1}`);
+    }
+    fs.renameSync(file, `${file}.1`);
+    this.currentSize = 0;
+  }
+}
+
+export class Logger {
+  constructor(
+    private options: { level: LogLevel; sinks: LogSink[] } = {
+      level: "info",
+      sinks: [new ConsoleSink()],
+    }
+  ) {}
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVEL_PRIORITY[level] >= LEVEL_PRIORITY[this.options.level];
+  }
+
+  log(level: LogLevel, message: string, fields: Record<string, unknown> = {}) {
+    if (!this.isEnabled(level)) return;
+
+    const record: LogRecord = {
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      fields,
+    };
+
+    for (const sink of this.options.sinks) {
+      sink.write(record);
+    }
+  }
+
+  debug(message: string, fields?: Record<string, unknown>) {
+    this.log("debug", message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>) {
+    this.log("info", message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>) {
+    this.log("warn", message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>) {
+    this.log("error", message, fields);
+  }
+}
+
+export const logger = new Logger();
+
+// Los decorators resuelven el logger en cada llamada: se puede reemplazar
+container.register(Logger, { useValue: logger });
+
+export const REDACTED = "[REDACTED]";
+
+// Reemplaza los campos con esos nombres a cualquier profundidad
+export function redact(value: unknown, fields: string[]): unknown {
+  if (fields.length === 0) return value;
+  return redactValue(value, new Set(fields), new WeakSet());
+}
+
+function redactValue(
+  value: unknown,
+  fields: Set<string>,
+  seen: WeakSet<object>
+): unknown {
+  if (!value || typeof value !== "object" || value instanceof Date) {
+    return value;
+  }
+  if (seen.has(value)) return "[Circular]";
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, fields, seen));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = fields.has(key) ? REDACTED : redactValue(item, fields, seen);
+  }
+  return result;
+}
+
+// Los errores no se serializan bien con JSON.stringify
+export function serializeError(error: unknown): Record<string, unknown> {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return { message: String(error) };
+}
@@ -0,0 +1,286 @@
+import { container } from "./container";
+import { recordDecorator } from "./introspection";
+
+type Labels = Record<string, string>;
+
+// Una métrica con ese nombre ya existe con otro tipo o con otros buckets
+export class MetricConflictError extends Error {
+  constructor(readonly metric: string, reason: string) {
+    super(`Metric ${metric} conflicts with an existing one: ${reason}`);
+    this.name = "MetricConflictError";
+  }
+}
+
+// Buckets por defecto en segundos, iguales a los de los clientes de Prometheus
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(
+    Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : 1))
+  );
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) =>
+      `${name}="${value
+        .replace(/\\/g, "\\\\")
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, "\\n")}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+export class Counter {
+  readonly type = "counter";
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, amount = 1) {
+    const key = labelKey(labels);
+    const series = this.values.get(key) ?? { labels, value: 0 };
+    series.value += amount;
+    this.values.set(key, series);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  series() {
+    return [...this.values.values()];
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram {
+  readonly type = "histogram";
+  private values = new Map<string, HistogramSeries>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly buckets: number[] = DEFAULT_BUCKETS
+  ) {
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels);
+    const series = this.values.get(key) ?? {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series.counts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+    this.values.set(key, series);
+  }
+
+  // Estimación por interpolación lineal dentro del bucket, como histogram_quantile
+  quantile(q: number, labels: Labels = {}): number | undefined {
+    const series = this.values.get(labelKey(labels));
+    if (!series || series.count === 0) return undefined;
+
+    const rank = q * series.count;
+    for (let index = 0; index < this.buckets.length; index++) {
+      if (series.counts[index] >= rank) {
+        const lower = index === 0 ? 0 : this.buckets[index - 1];
+        const below = index === 0 ? 0 : series.counts[index - 1];
+        const inBucket = series.counts[index] - below;
+        const fraction = inBucket === 0 ? 1 : (rank - below) / inBucket;
+        return lower + (this.buckets[index] - lower) * fraction;
+      }
+    }
+    // Cae en +Inf: el mejor dato disponible es el mayor bucket
+    return this.buckets[this.buckets.length - 1];
+  }
+
+  series() {
+    return [...this.values.values()];
+  }
+}
+
+type Metric = Counter | Histogram;
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string): Counter {
+    const metric = this.getOrCreate(name, () => new Counter(name, help));
+    if (!(metric instanceof Counter)) {
+      throw new MetricConflictError(name, `it is a ${metric.type}`);
+    }
+    return metric;
+  }
+
+  // Un nombre tiene un solo juego de buckets: pedir otros es un error, no se
+  // ignoran en silencio
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    const metric = this.getOrCreate(
+      name,
+      () => new Histogram(name, help, buckets)
+    );
+    if (!(metric instanceof Histogram)) {
+      throw new MetricConflictError(name, `it is a ${metric.type}`);
+    }
+
+    const requested = buckets && [...buckets].sort((a, b) => a - b);
+    if (requested && requested.join() !== metric.buckets.join()) {
+      throw new MetricConflictError(
+        name,
+        `buckets [${requested.join(", ")}] differ from [${metric.buckets.join(", ")}]`
+      );
+    }
+    return metric;
+  }
+
+  // Formato de exposición de texto de Prometheus
+  toPrometheus(): string {
+    const lines: string[] = [];
+
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+
+      if (metric instanceof Counter) {
+        for (const { labels, value } of metric.series()) {
+          lines.push(`${metric.name}${formatLabels(labels)} ${value}`);
+        }
+        continue;
+      }
+
+      for (const { labels, counts, sum, count } of metric.series()) {
+        const bucketLine = (le: string, value: number) =>
+          `${metric.name}_bucket${formatLabels({ ...labels, le })} ${value}`;
+
+        metric.buckets.forEach((bound, index) => {
+          lines.push(bucketLine(String(bound), counts[index]));
+        });
+        lines.push(bucketLine("+Inf", count));
+        lines.push(`${metric.name}_sum${formatLabels(labels)} ${sum}`);
+        lines.push(`${metric.name}_count${formatLabels(labels)} ${count}`);
+      }
+    }
+
+    return `${lines.join("\n")}\n`;
+  }
+
+  snapshot() {
+    return [...this.metrics.values()].map((metric) =>
+      metric instanceof Counter
+        ? {
+            name: metric.name,
+            type: metric.type,
+            help: metric.help,
+            series: metric.series(),
+          }
+        : {
+            name: metric.name,
+            type: metric.type,
+            help: metric.help,
+            buckets: metric.buckets,
+            series: metric.series().map((series) => ({
+              ...series,
+              p50: metric.quantile(0.5, series.labels),
+              p90: metric.quantile(0.9, series.labels),
+              p99: metric.quantile(0.99, series.labels),
+            })),
+          }
+    );
+  }
+
+  private getOrCreate(name: string, create: () => Metric): Metric {
+    const existing = this.metrics.get(name);
+    if (existing) return existing;
+
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+export const metricsRegistry = new MetricsRegistry();
+container.register(MetricsRegistry, { useValue: metricsRegistry });
+
+interface TimedOptions {
+  buckets?: number[];
+  // Nombre del histograma; por defecto uno compartido por todos los métodos
+  metric?: string;
+  registry?: MetricsRegistry;
+}
+
+function instrument(name: "Metered" | "Timed", options: TimedOptions) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ) {
+    const originalMethod = descriptor.value;
+    recordDecorator(target, propertyKey, { name, options });
+    const labels = { class: target.constructor.name, method: propertyKey };
+    // Con buckets propios y sin nombre, el método tiene su histograma: el
+    // compartido no puede tener dos juegos de buckets
+    const metric =
+      options.metric ??
+      (options.buckets
+        ? `method_duration_seconds_${labels.class}_${propertyKey}`.replace(
+            /[^a-zA-Z0-9_]/g,
+            "_"
+          )
+        : "method_duration_seconds");
+    const durations = (registry: MetricsRegistry) =>
+      registry.histogram(metric, "Method latency in seconds", options.buckets);
+    // Se registra al decorar: unos buckets en conflicto fallan al cargar la
+    // clase y no en medio de una llamada
+    if (name === "Timed") {
+      durations(options.registry ?? container.resolve(MetricsRegistry));
+    }
+
+    descriptor.value = async function (...args: any[]) {
+      const registry = options.registry ?? container.resolve(MetricsRegistry);
+      const startTime = process.hrtime.bigint();
+      registry.counter("method_calls_total", "Total method calls").inc(labels);
+
+      try {
+        return await originalMethod.apply(this, args);
+      } catch (error) {
+        registry
+          .counter("method_errors_total", "Total method calls that threw")
+          .inc(labels);
+        throw error;
+      } finally {
+        if (name === "Timed") {
+          const seconds = Number(process.hrtime.bigint() - startTime) / 1e9;
+          durations(registry).observe(labels, seconds);
+        }
+      }
+    };
+
+    return descriptor;
+  };
+}
+
+// Cuenta llamadas y errores por clase y método
+export function Metered(options: { registry?: MetricsRegistry } = {}) {
+  return instrument("Metered", options);
+}
+
+// Como @Metered y además registra un histograma de latencia
+export function Timed(options: TimedOptions = {}) {
+  return instrument("Timed", options);
+}
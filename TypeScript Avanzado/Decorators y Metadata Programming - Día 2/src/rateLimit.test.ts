@@ -0,0 +1,49 @@
+import "reflect-metadata";
+import * as assert from "node:assert/strict";
+import { test } from "node:test";
+import { FakeClock } from "./clock";
+import {
+  keyBy,
+  RateLimit,
+  RateLimitExceededError,
+  slidingWindowLog,
+} from "./rateLimit";
+import { runWithRequestContext } from "./requestContext";
+
+// Reloj manual: los límites se comprueban sin esperar tiempo real
+const reportClock = new FakeClock();
+
+class ReportService {
+  @RateLimit({
+    algorithm: slidingWindowLog({ limit: 2, windowMs: 1000 }),
+    key: keyBy.principal(),
+    clock: reportClock,
+  })
+  async generate(): Promise<string> {
+    return "report";
+  }
+}
+
+test("rejects until the sliding window expires", async () => {
+  const reports = new ReportService();
+  const asUser = (id: string) =>
+    runWithRequestContext({ principal: { id, roles: [] } }, () =>
+      reports.generate()
+    );
+
+  await asUser("ana");
+  await asUser("ana");
+  await assert.rejects(asUser("ana"), (error: unknown) => {
+    assert.ok(error instanceof RateLimitExceededError);
+    assert.equal(error.retryAfterMs, 1000);
+    return true;
+  });
+  // Cada usuario tiene su propio límite
+  assert.equal(await asUser("luis"), "report");
+
+  // Un milisegundo antes de que venza la ventana sigue rechazando
+  await reportClock.advance(999);
+  await assert.rejects(asUser("ana"), RateLimitExceededError);
+  await reportClock.advance(1);
+  assert.equal(await asUser("ana"), "report");
+});
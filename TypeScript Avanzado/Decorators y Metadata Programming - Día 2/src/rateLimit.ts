@@ -0,0 +1,193 @@
+import { Clock, systemClock } from "./clock";
+import { recordDecorator } from "./introspection";
+import { MemoryRateLimitStore, RateLimitStore } from "./rateLimitStore";
+import { currentPrincipal } from "./requestContext";
+
+export class RateLimitExceededError extends Error {
+  constructor(readonly key: string, readonly retryAfterMs: number) {
+    super(`Rate limit exceeded for ${key}, retry after ${retryAfterMs}ms`);
+    this.name = "RateLimitExceededError";
+  }
+}
+
+export interface RateLimitDecision<S> {
+  allowed: boolean;
+  // Cuánto esperar antes de que la siguiente llamada pueda pasar
+  retryAfterMs: number;
+  state: S;
+}
+
+export interface RateLimitAlgorithm<S> {
+  name: string;
+  consume(state: S | undefined, now: number): RateLimitDecision<S>;
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Permite ráfagas de hasta `capacity` y un ritmo sostenido de refillPerSecond
+export function tokenBucket(options: {
+  capacity: number;
+  refillPerSecond: number;
+}): RateLimitAlgorithm<TokenBucketState> {
+  return {
+    name: "token-bucket",
+    consume(state, now) {
+      const elapsed = state ? now - state.updatedAt : 0;
+      const tokens = Math.min(
+        options.capacity,
+        (state?.tokens ?? options.capacity) +
+          (elapsed / 1000) * options.refillPerSecond
+      );
+
+      if (tokens >= 1) {
+        return {
+          allowed: true,
+          retryAfterMs: 0,
+          state: { tokens: tokens - 1, updatedAt: now },
+        };
+      }
+
+      return {
+        allowed: false,
+        retryAfterMs: Math.ceil(
+          ((1 - tokens) / options.refillPerSecond) * 1000
+        ),
+        state: { tokens, updatedAt: now },
+      };
+    },
+  };
+}
+
+interface SlidingWindowState {
+  timestamps: number[];
+}
+
+// Como máximo `limit` llamadas en cualquier ventana de windowMs
+export function slidingWindowLog(options: {
+  limit: number;
+  windowMs: number;
+}): RateLimitAlgorithm<SlidingWindowState> {
+  return {
+    name: "sliding-window-log",
+    consume(state, now) {
+      const timestamps = (state?.timestamps ?? []).filter(
+        (time) => time > now - options.windowMs
+      );
+
+      if (timestamps.length < options.limit) {
+        return {
+          allowed: true,
+          retryAfterMs: 0,
+          state: { timestamps: [...timestamps, now] },
+        };
+      }
+
+      return {
+        allowed: false,
+        retryAfterMs: timestamps[0] + options.windowMs - now,
+        state: { timestamps },
+      };
+    },
+  };
+}
+
+type KeySelector = (...args: any[]) => string;
+
+// Selectores de key habituales
+export const keyBy = {
+  global: (): KeySelector => () => "global",
+  // Un límite por usuario del request context; sin principal se comparte uno
+  principal:
+    (anonymous = "anonymous"): KeySelector =>
+    () =>
+      currentPrincipal()?.id ?? anonymous,
+  argument:
+    (
+      index: number,
+      select: (arg: any) => unknown = (arg) => arg
+    ): KeySelector =>
+    (...args) =>
+      String(select(args[index])),
+};
+
+export function RateLimit(options: {
+  algorithm: RateLimitAlgorithm<any>;
+  key?: KeySelector;
+  // throw: rechaza; delay: espera y reintenta; queue: espera en orden FIFO
+  onLimit?: "throw" | "delay" | "queue";
+  // Espera máxima (ms) en modo delay/queue antes de rechazar
+  maxWait?: number;
+  store?: RateLimitStore;
+  clock?: Clock;
+}) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ) {
+    const originalMethod = descriptor.value;
+    recordDecorator(target, propertyKey, { name: "RateLimit", options });
+
+    const store = options.store ?? new MemoryRateLimitStore();
+    const clock = options.clock ?? systemClock;
+    const selectKey = options.key ?? keyBy.global();
+    const onLimit = options.onLimit ?? "throw";
+    const maxWait = options.maxWait ?? Infinity;
+    // Cola por key: cada llamada espera a que la anterior obtenga su permiso
+    const queues = new Map<string, Promise<void>>();
+
+    const tryConsume = async (key: string) => {
+      let decision!: RateLimitDecision<unknown>;
+      await store.update(key, (state) => {
+        decision = options.algorithm.consume(state, clock.now());
+        return decision.state;
+      });
+      return decision;
+    };
+
+    const acquire = async (key: string, startedAt = clock.now()) => {
+      for (;;) {
+        const decision = await tryConsume(key);
+        if (decision.allowed) return;
+
+        const waited = clock.now() - startedAt;
+        if (onLimit === "throw" || waited + decision.retryAfterMs > maxWait) {
+          throw new RateLimitExceededError(key, decision.retryAfterMs);
+        }
+        await clock.sleep(decision.retryAfterMs);
+      }
+    };
+
+    const acquireInOrder = (key: string): Promise<void> => {
+      const startedAt = clock.now();
+      const previous = queues.get(key) ?? Promise.resolve();
+      const turn = previous.then(() => acquire(key, startedAt));
+      // Un rechazo no debe bloquear a los siguientes de la cola
+      const tail = turn.catch(() => undefined);
+      queues.set(key, tail);
+      tail.then(() => {
+        if (queues.get(key) === tail) queues.delete(key);
+      });
+      return turn;
+    };
+
+    descriptor.value = async function (...args: any[]) {
+      const key = `${target.constructor.name}.${propertyKey}:${selectKey(
+        ...args
+      )}`;
+
+      if (onLimit === "queue") {
+        await acquireInOrder(key);
+      } else {
+        await acquire(key);
+      }
+
+      return originalMethod.apply(this, args);
+    };
+
+    return descriptor;
+  };
+}
@@ -0,0 +1,29 @@
+// Estado de los limiters por key; misma idea que CacheStore para poder
+// compartirlo más adelante entre procesos
+export interface RateLimitStore {
+  get<S>(key: string): Promise<S | undefined>;
+  // Lectura y escritura atómicas: llamadas concurrentes no pisan el estado
+  update<S>(key: string, updater: (state: S | undefined) => S): Promise<S>;
+  delete(key: string): Promise<boolean>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private states = new Map<string, unknown>();
+
+  async get<S>(key: string): Promise<S | undefined> {
+    return this.states.get(key) as S | undefined;
+  }
+
+  async update<S>(
+    key: string,
+    updater: (state: S | undefined) => S
+  ): Promise<S> {
+    const state = updater(this.states.get(key) as S | undefined);
+    this.states.set(key, state);
+    return state;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.states.delete(key);
+  }
+}
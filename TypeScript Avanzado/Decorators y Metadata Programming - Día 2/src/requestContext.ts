@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+
+// Quién hace la llamada
+export interface Principal {
+  id: string;
+  roles: string[];
+  // Atributos para policies basadas en atributos (email, tenant...)
+  attributes?: Record<string, unknown>;
+}
+
+export interface RequestContext {
+  requestId: string;
+  principal?: Principal;
+}
+
+const requestStorage = new AsyncLocalStorage<RequestContext>();
+
+// Ejecuta fn con el contexto visible para todos los decorators que llame
+export function runWithRequestContext<T>(
+  context: Partial<RequestContext>,
+  fn: () => T
+): T {
+  return requestStorage.run(
+    { requestId: context.requestId ?? randomUUID(), ...context },
+    fn
+  );
+}
+
+export function currentRequestContext(): RequestContext | undefined {
+  return requestStorage.getStore();
+}
+
+export function currentPrincipal(): Principal | undefined {
+  return requestStorage.getStore()?.principal;
+}
@@ -0,0 +1,294 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { EventEmitter } from "events";
+import { container } from "./container";
+import { Logger } from "./logger";
+import { recordDecorator } from "./introspection";
+
+// Orden recomendado (de arriba hacia abajo = de afuera hacia adentro):
+//   @Log -> @Cache -> @Bulkhead -> @Retry -> @CircuitBreaker -> @Timeout
+// Así cada reintento pasa por el circuito y tiene su propio timeout, y un
+// cache hit no ocupa un slot del bulkhead.
+
+export class CircuitOpenError extends Error {
+  constructor(circuit: string) {
+    super(`Circuit ${circuit} is open`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+export class TimeoutError extends Error {
+  constructor(method: string, ms: number) {
+    super(`${method} timed out after ${ms}ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+export class BulkheadRejectedError extends Error {
+  constructor(method: string) {
+    super(`${method} rejected: bulkhead is full`);
+    this.name = "BulkheadRejectedError";
+  }
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitOptions {
+  // Porcentaje de fallos (0-1) dentro de la ventana que abre el circuito
+  failureRateThreshold: number;
+  // Número de llamadas recientes que se evalúan
+  windowSize: number;
+  minimumCalls?: number;
+  // Tiempo (ms) que el circuito permanece abierto antes de probar de nuevo
+  openDuration: number;
+  halfOpenMaxCalls?: number;
+  isFailure?: (error: unknown) => boolean;
+}
+
+// Permiso de una llamada admitida: su resultado solo cuenta si el circuito
+// sigue en el mismo estado en que la admitió
+export interface CircuitPermit {
+  generation: number;
+  probe: boolean;
+}
+
+// Máquina de estados closed -> open -> half-open; emite "stateChange"
+export class Circuit extends EventEmitter {
+  state: CircuitState = "closed";
+  private outcomes: boolean[] = [];
+  private openedAt = 0;
+  private halfOpenCalls = 0;
+  private halfOpenSuccesses = 0;
+  // Cambia en cada transición; invalida los permisos emitidos antes
+  private generation = 0;
+
+  constructor(readonly name: string, readonly options: CircuitOptions) {
+    super();
+  }
+
+  get failureRate(): number {
+    if (this.outcomes.length === 0) return 0;
+    const failures = this.outcomes.filter((success) => !success).length;
+    return failures / this.outcomes.length;
+  }
+
+  // Reserva un permiso para ejecutar; undefined si la llamada debe rechazarse
+  tryAcquire(): CircuitPermit | undefined {
+    if (
+      this.state === "open" &&
+      Date.now() - this.openedAt >= this.options.openDuration
+    ) {
+      this.transition("half-open");
+    }
+
+    if (this.state === "open") return undefined;
+    if (this.state === "half-open") {
+      if (this.halfOpenCalls >= (this.options.halfOpenMaxCalls ?? 1)) {
+        return undefined;
+      }
+      this.halfOpenCalls++;
+    }
+    return { generation: this.generation, probe: this.state === "half-open" };
+  }
+
+  recordSuccess(permit: CircuitPermit) {
+    if (this.isStale(permit)) return;
+    if (permit.probe) {
+      this.halfOpenSuccesses++;
+      if (this.halfOpenSuccesses >= (this.options.halfOpenMaxCalls ?? 1)) {
+        this.transition("closed");
+      }
+      return;
+    }
+    this.record(true);
+  }
+
+  recordFailure(permit: CircuitPermit) {
+    if (this.isStale(permit)) return;
+    if (permit.probe) {
+      this.transition("open");
+      return;
+    }
+    this.record(false);
+
+    const { minimumCalls = this.options.windowSize } = this.options;
+    if (
+      this.outcomes.length >= minimumCalls &&
+      this.failureRate >= this.options.failureRateThreshold
+    ) {
+      this.transition("open");
+    }
+  }
+
+  // Una llamada lenta que termina después de un cambio de estado no reabre
+  // el circuito ni cuenta como prueba del half-open
+  private isStale(permit: CircuitPermit): boolean {
+    return permit.generation !== this.generation;
+  }
+
+  private record(success: boolean) {
+    this.outcomes.push(success);
+    if (this.outcomes.length > this.options.windowSize) this.outcomes.shift();
+  }
+
+  private transition(to: CircuitState) {
+    const from = this.state;
+    this.state = to;
+    this.generation++;
+    this.halfOpenCalls = 0;
+    this.halfOpenSuccesses = 0;
+    if (to === "open") this.openedAt = Date.now();
+    if (to === "closed") this.outcomes = [];
+
+    this.emit("stateChange", { circuit: this.name, from, to });
+  }
+}
+
+// Circuitos por "Clase.método" para poder observarlos desde afuera
+export const circuits = new Map<string, Circuit>();
+
+export function CircuitBreaker(
+  options: CircuitOptions & { circuit?: Circuit }
+) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ) {
+    const originalMethod = descriptor.value;
+    recordDecorator(target, propertyKey, { name: "CircuitBreaker", options });
+    const name = `${target.constructor.name}.${propertyKey}`;
+    const circuit = options.circuit ?? new Circuit(name, options);
+    const isFailure = options.isFailure ?? (() => true);
+
+    circuits.set(name, circuit);
+    circuit.on("stateChange", (change) =>
+      container.resolve(Logger).warn(`Circuit ${change.circuit} ${change.to}`, {
+        ...change,
+        failureRate: circuit.failureRate,
+      })
+    );
+
+    descriptor.value = async function (...args: any[]) {
+      const permit = circuit.tryAcquire();
+      if (!permit) {
+        throw new CircuitOpenError(circuit.name);
+      }
+
+      try {
+        const result = await originalMethod.apply(this, args);
+        circuit.recordSuccess(permit);
+        return result;
+      } catch (error) {
+        // Errores de negocio (p.ej. validación) no cuentan como fallo
+        if (isFailure(error)) {
+          circuit.recordFailure(permit);
+        } else {
+          circuit.recordSuccess(permit);
+        }
+        throw error;
+      }
+    };
+
+    return descriptor;
+  };
+}
+
+const signalStorage = new AsyncLocalStorage<AbortSignal>();
+
+// Signal del @Timeout más cercano; el método puede pasarla a fetch, timers...
+export function currentSignal(): AbortSignal | undefined {
+  return signalStorage.getStore();
+}
+
+export function Timeout(ms: number) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ) {
+    const originalMethod = descriptor.value;
+    recordDecorator(target, propertyKey, { name: "Timeout", options: { ms } });
+    const method = `${target.constructor.name}.${propertyKey}`;
+
+    descriptor.value = async function (...args: any[]) {
+      const controller = new AbortController();
+      // Un timeout externo también cancela las llamadas internas
+      const outer = currentSignal();
+      const abortFromOuter = () => controller.abort(outer?.reason);
+      if (outer?.aborted) abortFromOuter();
+      outer?.addEventListener("abort", abortFromOuter, { once: true });
+
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          const error = new TimeoutError(method, ms);
+          controller.abort(error);
+          reject(error);
+        }, ms);
+      });
+
+      try {
+        return await Promise.race([
+          signalStorage.run(controller.signal, () =>
+            originalMethod.apply(this, args)
+          ),
+          timeout,
+        ]);
+      } finally {
+        clearTimeout(timer);
+        outer?.removeEventListener("abort", abortFromOuter);
+      }
+    };
+
+    return descriptor;
+  };
+}
+
+export function Bulkhead(options: {
+  maxConcurrent: number;
+  maxQueue?: number;
+}) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ) {
+    const originalMethod = descriptor.value;
+    recordDecorator(target, propertyKey, { name: "Bulkhead", options });
+    const method = `${target.constructor.name}.${propertyKey}`;
+    const queue: (() => void)[] = [];
+    let active = 0;
+
+    const acquire = async () => {
+      if (active < options.maxConcurrent) {
+        active++;
+        return;
+      }
+      if (queue.length >= (options.maxQueue ?? 0)) {
+        throw new BulkheadRejectedError(method);
+      }
+      // El slot se transfiere directamente al liberar, sin decrementar active
+      await new Promise<void>((resolve) => queue.push(resolve));
+    };
+
+    const release = () => {
+      const next = queue.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    };
+
+    descriptor.value = async function (...args: any[]) {
+      await acquire();
+      try {
+        return await originalMethod.apply(this, args);
+      } finally {
+        release();
+      }
+    };
+
+    return descriptor;
+  };
+}
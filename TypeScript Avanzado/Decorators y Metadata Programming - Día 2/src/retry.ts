@@ -0,0 +1,174 @@
+import { ValidationError } from "./errors";
+import { container } from "./container";
+import { Logger } from "./logger";
+import { BulkheadRejectedError, CircuitOpenError } from "./resilience";
+import { recordDecorator } from "./introspection";
+
+type ErrorClass = new (...args: any[]) => Error;
+type ErrorMatcher = ErrorClass[] | ((error: unknown) => boolean);
+
+export interface RetryContext {
+  method: string;
+  attempt: number;
+  error: unknown;
+  delay: number;
+  elapsed: number;
+}
+
+export interface RetryPolicy {
+  attempts: number;
+  delay: number;
+  backoff?: number;
+  maxDelay?: number;
+  jitter?: "none" | "full" | "decorrelated";
+  // Tiempo total máximo (ms) incluyendo esperas; al superarlo no se reintenta
+  maxElapsed?: number;
+  retryOn?: ErrorMatcher;
+  // Se suman a los errores de validación y rechazos inmediatos, que nunca se
+  // reintentan
+  abortOn?: ErrorMatcher;
+  onRetry?: (context: RetryContext) => void;
+  budget?: RetryBudget;
+}
+
+// Limita los reintentos a un porcentaje de las llamadas en una ventana,
+// compartido entre métodos para no amplificar una caída
+export class RetryBudget {
+  private requests: number[] = [];
+  private retries: number[] = [];
+
+  constructor(
+    private options: {
+      ratio: number;
+      minRetriesPerSecond?: number;
+      windowMs?: number;
+    } = { ratio: 0.2 }
+  ) {}
+
+  recordRequest() {
+    this.requests.push(Date.now());
+  }
+
+  tryAcquire(): boolean {
+    const { ratio, minRetriesPerSecond = 1, windowMs = 10_000 } = this.options;
+    this.prune(windowMs);
+
+    const allowed = Math.max(
+      minRetriesPerSecond * (windowMs / 1000),
+      this.requests.length * ratio
+    );
+    if (this.retries.length >= allowed) return false;
+
+    this.retries.push(Date.now());
+    return true;
+  }
+
+  private prune(windowMs: number) {
+    const cutoff = Date.now() - windowMs;
+    this.requests = this.requests.filter((time) => time > cutoff);
+    this.retries = this.retries.filter((time) => time > cutoff);
+  }
+}
+
+function matches(matcher: ErrorMatcher, error: unknown): boolean {
+  return typeof matcher === "function"
+    ? matcher(error)
+    : matcher.some((errorClass) => error instanceof errorClass);
+}
+
+// Nunca tiene sentido reintentarlos; abortOn se suma a estos, no los reemplaza
+const NON_RETRYABLE_ERRORS: ErrorClass[] = [
+  ValidationError,
+  CircuitOpenError,
+  BulkheadRejectedError,
+];
+
+function isRetryable(policy: RetryPolicy, error: unknown): boolean {
+  if (matches(NON_RETRYABLE_ERRORS, error)) return false;
+  if (policy.abortOn && matches(policy.abortOn, error)) return false;
+  return policy.retryOn ? matches(policy.retryOn, error) : true;
+}
+
+function nextDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  previousDelay: number
+): number {
+  const maxDelay = policy.maxDelay ?? Infinity;
+  const exponential = Math.min(
+    maxDelay,
+    policy.delay * Math.pow(policy.backoff || 1, attempt - 1)
+  );
+
+  switch (policy.jitter) {
+    case "full":
+      return Math.random() * exponential;
+    case "decorrelated":
+      // delay aleatorio entre la base y 3x el delay anterior
+      return Math.min(
+        maxDelay,
+        policy.delay + Math.random() * (previousDelay * 3 - policy.delay)
+      );
+    default:
+      return exponential;
+  }
+}
+
+// Retry decorator para resilience
+export function Retry(policy: RetryPolicy) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ) {
+    const originalMethod = descriptor.value;
+    recordDecorator(target, propertyKey, { name: "Retry", options: policy });
+    const method = `${target.constructor.name}.${propertyKey}`;
+
+    descriptor.value = async function (...args: any[]) {
+      const logger = container.resolve(Logger);
+      const startTime = Date.now();
+      let previousDelay = policy.delay;
+      policy.budget?.recordRequest();
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await originalMethod.apply(this, args);
+        } catch (error) {
+          if (attempt >= policy.attempts || !isRetryable(policy, error)) {
+            throw error;
+          }
+
+          const delay = Math.round(nextDelay(policy, attempt, previousDelay));
+          const elapsed = Date.now() - startTime;
+          if (
+            policy.maxElapsed !== undefined &&
+            elapsed + delay > policy.maxElapsed
+          ) {
+            throw error;
+          }
+
+          if (policy.budget && !policy.budget.tryAcquire()) {
+            logger.warn(`${method} retry budget exhausted`, {
+              method,
+              attempt,
+            });
+            throw error;
+          }
+
+          policy.onRetry?.({ method, attempt, error, delay, elapsed });
+          logger.warn(`Attempt ${attempt} failed, retrying in ${delay}ms`, {
+            method,
+            attempt,
+            delay,
+          });
+
+          previousDelay = delay;
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+    };
+
+    return descriptor;
+  };
+}
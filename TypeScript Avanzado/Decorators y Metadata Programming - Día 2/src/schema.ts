@@ -0,0 +1,127 @@
+import {
+  IssuePath,
+  ValidationError,
+  ValidationIssue,
+  formatIssue,
+} from "./errors";
+
+type Checker = (
+  value: unknown,
+  path: IssuePath,
+  issues: ValidationIssue[]
+) => void;
+
+// Schema tipado: T es el tipo que produce una validación exitosa
+export class Schema<T> {
+  // Solo a nivel de tipos, para poder inferir T con Infer<typeof schema>
+  readonly _type!: T;
+
+  constructor(private checker: Checker) {}
+
+  validate(value: unknown, path: IssuePath = []): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    this.checker(value, path, issues);
+    return issues;
+  }
+
+  parse(value: unknown): T {
+    const issues = this.validate(value);
+    if (issues.length > 0) {
+      throw new ValidationError(issues.map(formatIssue).join("; "), issues);
+    }
+    return value as T;
+  }
+
+  optional(): Schema<T | undefined> {
+    return new Schema<T | undefined>((value, path, issues) => {
+      if (value !== undefined) this.checker(value, path, issues);
+    });
+  }
+
+  // Regla adicional que solo se evalúa si el valor ya tiene el tipo correcto
+  refine(predicate: (value: T) => boolean, message: string): Schema<T> {
+    return new Schema<T>((value, path, issues) => {
+      const before = issues.length;
+      this.checker(value, path, issues);
+      if (issues.length === before && !predicate(value as T)) {
+        issues.push({ path, message });
+      }
+    });
+  }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<any>>;
+
+// Las propiedades cuyo schema acepta undefined pasan a ser opcionales
+type ObjectOutput<S extends Shape> = {
+  [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]>;
+} & {
+  [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>;
+} extends infer O
+  ? { [K in keyof O]: O[K] }
+  : never;
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function primitive<T>(type: "string" | "number" | "boolean"): Schema<T> {
+  return new Schema<T>((value, path, issues) => {
+    if (typeof value !== type || (type === "number" && Number.isNaN(value))) {
+      issues.push({
+        path,
+        message: `Expected ${type}, received ${describe(value)}`,
+      });
+    }
+  });
+}
+
+function object<S extends Shape>(shape: S): Schema<ObjectOutput<S>> {
+  return new Schema<ObjectOutput<S>>((value, path, issues) => {
+    if (describe(value) !== "object") {
+      issues.push({
+        path,
+        message: `Expected object, received ${describe(value)}`,
+      });
+      return;
+    }
+
+    // Se validan todas las propiedades para reportar todos los errores
+    for (const [key, schema] of Object.entries(shape)) {
+      issues.push(
+        ...schema.validate((value as Record<string, unknown>)[key], [
+          ...path,
+          key,
+        ])
+      );
+    }
+  });
+}
+
+function array<T>(items: Schema<T>): Schema<T[]> {
+  return new Schema<T[]>((value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({
+        path,
+        message: `Expected array, received ${describe(value)}`,
+      });
+      return;
+    }
+
+    value.forEach((item, index) => {
+      issues.push(...items.validate(item, [...path, index]));
+    });
+  });
+}
+
+export const s = {
+  string: () => primitive<string>("string"),
+  number: () => primitive<number>("number"),
+  boolean: () => primitive<boolean>("boolean"),
+  object,
+  array,
+};
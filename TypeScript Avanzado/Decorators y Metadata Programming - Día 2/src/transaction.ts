@@ -0,0 +1,261 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { container, InjectionToken } from "./container";
+import { Logger, serializeError } from "./logger";
+import { recordDecorator } from "./introspection";
+
+export type Propagation = "REQUIRED" | "REQUIRES_NEW" | "NESTED";
+
+type Compensation = () => void | Promise<void>;
+
+export class TransactionRolledBackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransactionRolledBackError";
+  }
+}
+
+// Errores que provocaron un rollback, para que otros wrappers lo distingan
+const rolledBackErrors = new WeakSet<object>();
+
+export function wasRolledBack(error: unknown): boolean {
+  return (
+    error instanceof TransactionRolledBackError ||
+    (typeof error === "object" && error !== null && rolledBackErrors.has(error))
+  );
+}
+
+export class TransactionContext {
+  status: "active" | "committed" | "rolledBack" = "active";
+  // Un método que se unió (REQUIRED) y falló impide hacer commit
+  rollbackOnly = false;
+  compensations: Compensation[] = [];
+  // Se ejecutan cuando la transacción raíz hace commit
+  commitActions: Compensation[] = [];
+
+  constructor(readonly id: string, readonly parent?: TransactionContext) {}
+
+  onRollback(action: Compensation) {
+    this.assertActive();
+    this.compensations.push(action);
+  }
+
+  onCommit(action: Compensation) {
+    this.assertActive();
+    this.commitActions.push(action);
+  }
+
+  private assertActive() {
+    if (this.status !== "active") {
+      throw new Error(`Transaction ${this.id} is no longer active`);
+    }
+  }
+}
+
+export interface TransactionManager {
+  begin(parent?: TransactionContext): Promise<TransactionContext>;
+  commit(transaction: TransactionContext): Promise<void>;
+  rollback(transaction: TransactionContext): Promise<void>;
+}
+
+// Manager basado en acciones compensatorias (undo log)
+export class CompensatingTransactionManager implements TransactionManager {
+  private sequence = 0;
+
+  async begin(parent?: TransactionContext): Promise<TransactionContext> {
+    const id = parent
+      ? `${parent.id}.${++this.sequence}`
+      : `tx_${++this.sequence}`;
+    return new TransactionContext(id, parent);
+  }
+
+  async commit(transaction: TransactionContext): Promise<void> {
+    if (transaction.rollbackOnly) {
+      await this.rollback(transaction);
+      throw new TransactionRolledBackError(
+        `Transaction ${transaction.id} was marked rollback-only`
+      );
+    }
+
+    transaction.status = "committed";
+
+    // Un savepoint confirmado sigue siendo deshacible por la transacción padre
+    if (transaction.parent) {
+      transaction.parent.compensations.push(...transaction.compensations);
+      transaction.parent.commitActions.push(...transaction.commitActions);
+      return;
+    }
+
+    for (const action of transaction.commitActions) {
+      try {
+        await action();
+      } catch (error) {
+        container
+          .resolve(Logger)
+          .error(`Commit action failed in transaction ${transaction.id}`, {
+            transactionId: transaction.id,
+            error: serializeError(error),
+          });
+      }
+    }
+  }
+
+  async rollback(transaction: TransactionContext): Promise<void> {
+    // Deshacer en orden inverso al registrado
+    const compensations = [...transaction.compensations].reverse();
+    transaction.status = "rolledBack";
+    transaction.compensations = [];
+    transaction.commitActions = [];
+
+    for (const compensate of compensations) {
+      try {
+        await compensate();
+      } catch (error) {
+        container
+          .resolve(Logger)
+          .error(`Compensation failed in transaction ${transaction.id}`, {
+            transactionId: transaction.id,
+            error: serializeError(error),
+          });
+      }
+    }
+  }
+}
+
+export const transactionManager = new CompensatingTransactionManager();
+
+export const TRANSACTION_MANAGER = new InjectionToken<TransactionManager>(
+  "TransactionManager"
+);
+container.register(TRANSACTION_MANAGER, { useValue: transactionManager });
+
+const transactionStorage = new AsyncLocalStorage<TransactionContext>();
+
+export function currentTransaction(): TransactionContext | undefined {
+  return transactionStorage.getStore();
+}
+
+// Registra una acción que se ejecuta si la transacción actual hace rollback
+export function onRollback(action: Compensation) {
+  const transaction = currentTransaction();
+  if (!transaction) {
+    throw new Error("onRollback() called outside of a transaction");
+  }
+  transaction.onRollback(action);
+}
+
+// Registra una acción que se ejecuta solo si la transacción llega a confirmarse
+export function onCommit(action: Compensation) {
+  const transaction = currentTransaction();
+  if (!transaction) {
+    throw new Error("onCommit() called outside of a transaction");
+  }
+  transaction.onCommit(action);
+}
+
+//Transaction decorator
+export function Transaction(
+  options: { propagation?: Propagation; manager?: TransactionManager } = {}
+) {
+  return function (
+    target: Object,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor
+  ): PropertyDescriptor | void {
+    if (!descriptor) return;
+    const originalMethod = descriptor.value;
+    recordDecorator(target, propertyKey, { name: "Transaction", options });
+    const propagation = options.propagation ?? "REQUIRED";
+    const method = String(propertyKey);
+
+    descriptor.value = async function (...args: any[]) {
+      const outer = currentTransaction();
+      const manager = options.manager ?? container.resolve(TRANSACTION_MANAGER);
+      const logger = container.resolve(Logger);
+
+      // REQUIRED dentro de otra transacción: unirse a ella
+      if (outer && propagation === "REQUIRED") {
+        try {
+          return await originalMethod.apply(this, args);
+        } catch (error) {
+          outer.rollbackOnly = true;
+          throw error;
+        }
+      }
+
+      const parent = propagation === "NESTED" ? outer : undefined;
+      const transaction = await manager.begin(parent);
+      const fields = { method, transactionId: transaction.id, propagation };
+      logger.info(`Iniciando transacción para ${method}`, fields);
+
+      let result: any;
+      try {
+        result = await transactionStorage.run(transaction, () =>
+          originalMethod.apply(this, args)
+        );
+      } catch (error) {
+        await manager.rollback(transaction);
+        if (typeof error === "object" && error !== null) {
+          rolledBackErrors.add(error);
+        }
+        logger.error(`Transaccion ${method} rolled back`, {
+          ...fields,
+          error: serializeError(error),
+        });
+        throw error;
+      }
+
+      await manager.commit(transaction);
+      logger.info(`Transaccion ${method} se completo con exito`, fields);
+      return result;
+    };
+
+    return descriptor;
+  };
+}
+
+// Key-value store en memoria que se deshace con la transacción actual
+export class TransactionalKeyValueStore<V> {
+  private data = new Map<string, V>();
+
+  get(key: string): V | undefined {
+    return this.data.get(key);
+  }
+
+  has(key: string): boolean {
+    return this.data.has(key);
+  }
+
+  set(key: string, value: V) {
+    this.recordUndo(key);
+    this.data.set(key, value);
+  }
+
+  delete(key: string): boolean {
+    if (!this.data.has(key)) return false;
+    this.recordUndo(key);
+    return this.data.delete(key);
+  }
+
+  entries(): [string, V][] {
+    return [...this.data.entries()];
+  }
+
+  get size(): number {
+    return this.data.size;
+  }
+
+  private recordUndo(key: string) {
+    const transaction = currentTransaction();
+    if (!transaction) return;
+
+    const existed = this.data.has(key);
+    const previous = this.data.get(key);
+    transaction.onRollback(() => {
+      if (existed) {
+        this.data.set(key, previous as V);
+      } else {
+        this.data.delete(key);
+      }
+    });
+  }
+}
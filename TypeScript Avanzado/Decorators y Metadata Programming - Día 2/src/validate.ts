@@ -0,0 +1,91 @@
+import "reflect-metadata";
+import { ValidationError, ValidationIssue, formatIssue } from "./errors";
+import { Schema } from "./schema";
+import { recordDecorator } from "./introspection";
+
+const PARAM_SCHEMAS = Symbol("validate:paramSchemas");
+
+type ParamSchemas = Map<number, Schema<unknown>>;
+
+function registerParamSchema(
+  target: Object,
+  propertyKey: string | symbol,
+  index: number,
+  schema: Schema<unknown>
+) {
+  const schemas: ParamSchemas =
+    Reflect.getOwnMetadata(PARAM_SCHEMAS, target, propertyKey) ?? new Map();
+  schemas.set(index, schema);
+  Reflect.defineMetadata(PARAM_SCHEMAS, schemas, target, propertyKey);
+}
+
+export function getParamSchemas(
+  target: Object,
+  propertyKey: string | symbol
+): ParamSchemas {
+  return (
+    Reflect.getOwnMetadata(PARAM_SCHEMAS, target, propertyKey) ?? new Map()
+  );
+}
+
+// Parameter decorator: valida el argumento en el que se declara
+export function Body(schema: Schema<unknown>) {
+  return function (
+    target: Object,
+    propertyKey: string | symbol,
+    parameterIndex: number
+  ) {
+    registerParamSchema(target, propertyKey, parameterIndex, schema);
+  };
+}
+
+// Method decorator: asigna un schema a un argumento por posición
+export function Param(index: number, schema: Schema<unknown>) {
+  return function (
+    target: Object,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor
+  ) {
+    registerParamSchema(target, propertyKey, index, schema);
+    return descriptor;
+  };
+}
+
+// Validation decorator: aplica los schemas registrados con @Body / @Param.
+// Validate(schema) es un atajo para validar solo el primer argumento.
+export function Validate(schema?: Schema<unknown>) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ) {
+    if (schema) registerParamSchema(target, propertyKey, 0, schema);
+    const originalMethod = descriptor.value;
+    recordDecorator(target, propertyKey, {
+      name: "Validate",
+      options: { schema },
+    });
+
+    descriptor.value = async function (...args: any[]) {
+      const issues: ValidationIssue[] = [];
+
+      // Validar cada argumento con su schema y acumular todos los errores
+      for (const [index, paramSchema] of getParamSchemas(target, propertyKey)) {
+        issues.push(...paramSchema.validate(args[index], [index]));
+      }
+
+      if (issues.length > 0) {
+        throw new ValidationError(
+          `Validation failed for ${
+            target.constructor.name
+          }.${propertyKey}: ${issues.map(formatIssue).join("; ")}`,
+          issues
+        );
+      }
+
+      return originalMethod.apply(this, args);
+    };
+
+    return descriptor;
+  };
+}
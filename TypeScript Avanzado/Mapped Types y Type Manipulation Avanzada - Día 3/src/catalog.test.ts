@@ -0,0 +1,87 @@
+import Ajv2020 from "ajv/dist/2020";
+import addFormats from "ajv-formats";
+import * as assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  CatalogItem,
+  CatalogItemFactory,
+  CatalogProcessor,
+  catalogSchemas,
+} from "./catalog";
+import { generateJsonSchema } from "./jsonSchema";
+
+// Se comprueba con Ajv, un validador independiente del generador: si el
+// contrato y processItem divergen el test falla
+const catalogJsonSchema = generateJsonSchema(catalogSchemas);
+const ajv = new Ajv2020({ allErrors: true });
+addFormats(ajv);
+ajv.addSchema(catalogJsonSchema);
+
+function contract(name: string) {
+  const validator = ajv.getSchema(`${catalogJsonSchema.$id}#/$defs/${name}`);
+  if (!validator) throw new Error(`Schema ${name} is not defined`);
+  return validator;
+}
+
+const sampleItems: CatalogItem[] = [
+  CatalogItemFactory.createProduct({
+    name: "Laptop",
+    price: 999,
+    category: "Electronics",
+    inStock: true,
+    metadata: {
+      weight: 2.5,
+      dimensions: { width: 30, height: 20, depth: 2 },
+      tags: ["laptop", "computer", "portable"],
+    },
+  }),
+  CatalogItemFactory.createService({
+    name: "Instalación",
+    hourlyRate: 45,
+    category: "Soporte",
+    available: true,
+    metadata: {
+      duration: 2,
+      requirements: ["acceso al edificio"],
+      location: "onsite",
+    },
+  }),
+  CatalogItemFactory.createSubscription({
+    name: "Cloud backup",
+    monthlyPrice: 9.99,
+    category: "SaaS",
+    active: true,
+    metadata: {
+      features: ["versioning"],
+      limits: { users: 5, storage: 500 },
+      billingCycle: "yearly",
+    },
+  }),
+];
+
+test("processItem responses match CatalogApiResponse", () => {
+  const validateApiResponse = contract("CatalogApiResponse");
+  for (const item of sampleItems) {
+    // Tal como viaja por la red: las fechas ya son strings
+    const response = JSON.parse(
+      JSON.stringify(CatalogProcessor.processItem(item))
+    );
+    assert.ok(
+      validateApiResponse(response),
+      `processItem(${item.type}): ${ajv.errorsText(validateApiResponse.errors)}`
+    );
+  }
+});
+
+test("CatalogUpdateRequest rejects what the type does not allow", () => {
+  const validateUpdate = contract("CatalogUpdateRequest");
+  const invalidUpdate = {
+    type: "product",
+    updates: { price: -1, color: "red" },
+  };
+  assert.equal(validateUpdate(invalidUpdate), false);
+  assert.equal(
+    validateUpdate({ type: "product", updates: { price: 899 } }),
+    true
+  );
+});
@@ -0,0 +1,425 @@
+import { ENTITY_KEYS } from "./jsonSchema";
+import {
+  AnyFieldSchema,
+  CreateValidationSchema,
+  createSchema,
+  field,
+  validate,
+  validateField,
+  ValidationResult,
+} from "./schema";
+
+// Domain model complejo con union types
+interface BaseEntity {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+  version: number;
+}
+
+interface Product extends BaseEntity {
+  type: "product";
+  name: string;
+  price: number;
+  category: string;
+  inStock: boolean;
+  metadata: {
+    weight: number;
+    dimensions: { width: number; height: number; depth: number };
+    tags: string[];
+  };
+}
+
+interface Service extends BaseEntity {
+  type: "service";
+  name: string;
+  hourlyRate: number;
+  category: string;
+  available: boolean;
+  metadata: {
+    duration: number;
+    requirements: string[];
+    location: "remote" | "onsite" | "hybrid";
+  };
+}
+
+export interface Subscription extends BaseEntity {
+  type: "subscription";
+  name: string;
+  monthlyPrice: number;
+  category: string;
+  active: boolean;
+  metadata: {
+    features: string[];
+    limits: { users: number; storage: number };
+    billingCycle: "monthly" | "yearly";
+  };
+}
+
+export type CatalogItem = Product | Service | Subscription;
+
+// Sistema de transformaciones usando mapped types y distributive conditional types
+
+// 1. Crear API response types
+type ToApiResponse<T extends { id: string }> = T extends { type: infer U }
+  ? {
+      type: U;
+      id: T["id"];
+      data: Omit<T, "id" | "type" | "createdAt" | "updatedAt" | "version">;
+      meta: {
+        createdAt: string;
+        updatedAt: string;
+        version: number;
+      };
+    }
+  : never;
+
+type CatalogApiResponses = ToApiResponse<CatalogItem>;
+
+// 2. Crear update request types
+type ToUpdateRequest<T> = T extends { type: infer U }
+  ? {
+      type: U;
+      updates: Partial<
+        Omit<T, "id" | "type" | "createdAt" | "updatedAt" | "version">
+      >;
+      reason?: string;
+    }
+  : never;
+
+type CatalogUpdateRequests = ToUpdateRequest<CatalogItem>;
+
+// 3. Mapped type para crear validation schemas: CreateValidationSchema<T>
+// vive en schema.ts junto con los builders y el validador que lo ejecuta
+
+// 4. Distributive transformation para crear event types
+type ToEventType<T> = T extends { type: infer U }
+  ? {
+      eventType: `${string & U}Changed`;
+      entityId: string;
+      changes: Partial<
+        Omit<T, "id" | "type" | "createdAt" | "updatedAt" | "version">
+      >;
+      metadata: {
+        timestamp: Date;
+        userId: string;
+        source: string;
+      };
+    }
+  : never;
+
+type CatalogEvents = ToEventType<CatalogItem>;
+
+// 5. Mapped type para crear getters y setters
+type CreateAccessors<T> = {
+  [K in keyof T as K extends
+    | "id"
+    | "type"
+    | "createdAt"
+    | "updatedAt"
+    | "version"
+    ? never
+    : `get${Capitalize<string & K>}`]: () => T[K];
+} & {
+  [K in keyof T as K extends
+    | "id"
+    | "type"
+    | "createdAt"
+    | "updatedAt"
+    | "version"
+    ? never
+    : `set${Capitalize<string & K>}`]: (value: T[K]) => void;
+};
+
+// 6. Sistema de serialization
+type CreateSerializers<T> = {
+  [K in keyof T]: T[K] extends Date
+    ? (value: T[K]) => string
+    : T[K] extends object
+    ? (value: T[K]) => Record<string, any>
+    : (value: T[K]) => T[K];
+};
+
+// 7. Factory para crear instances
+export class CatalogItemFactory {
+  static createProduct(
+    data: Omit<Product, "id" | "type" | "createdAt" | "updatedAt" | "version">
+  ): Product {
+    return {
+      id: `product_${Date.now()}`,
+      type: "product",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      version: 1,
+      ...data,
+    };
+  }
+
+  static createService(
+    data: Omit<Service, "id" | "type" | "createdAt" | "updatedAt" | "version">
+  ): Service {
+    return {
+      id: `service_${Date.now()}`,
+      type: "service",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      version: 1,
+      ...data,
+    };
+  }
+
+  static createSubscription(
+    data: Omit<
+      Subscription,
+      "id" | "type" | "createdAt" | "updatedAt" | "version"
+    >
+  ): Subscription {
+    return {
+      id: `subscription_${Date.now()}`,
+      type: "subscription",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      version: 1,
+      ...data,
+    };
+  }
+}
+
+// 8. Type-safe processor que usa distributive conditional types
+export class CatalogProcessor {
+  static processItem<T extends CatalogItem>(item: T): ToApiResponse<T> {
+    const { id, type, createdAt, updatedAt, version, ...data } = item;
+
+    return {
+      type: type as any,
+      id,
+      data: data as any,
+      meta: {
+        createdAt: createdAt.toISOString(),
+        updatedAt: updatedAt.toISOString(),
+        version,
+      },
+    } as ToApiResponse<T>;
+  }
+
+  static createEvent<T extends CatalogItem>(
+    item: T,
+    changes: Partial<
+      Omit<T, "id" | "type" | "createdAt" | "updatedAt" | "version">
+    >,
+    userId: string
+  ): ToEventType<T> {
+    return {
+      eventType: `${item.type}Changed` as any,
+      entityId: item.id,
+      changes,
+      metadata: {
+        timestamp: new Date(),
+        userId,
+        source: "catalog-service",
+      },
+    } as ToEventType<T>;
+  }
+}
+
+// 9. Mapped type para crear validators
+type CreateValidators<T> = {
+  [K in keyof T]: T[K] extends string
+    ? (value: any) => value is string
+    : T[K] extends number
+    ? (value: any) => value is number
+    : T[K] extends boolean
+    ? (value: any) => value is boolean
+    : T[K] extends Date
+    ? (value: any) => value is Date
+    : T[K] extends object
+    ? (value: any) => value is T[K]
+    : (value: any) => boolean;
+};
+// 10. Validadores para Product
+export const productValidators: CreateValidators<Product> = {
+  id: (value): value is string => typeof value === "string",
+  createdAt: (value): value is Date => value instanceof Date,
+  updatedAt: (value): value is Date => value instanceof Date,
+  version: (value): value is number => typeof value === "number",
+  type: (value): value is "product" => value === "product",
+  name: (value): value is string => typeof value === "string",
+  price: (value): value is number => typeof value === "number",
+  category: (value): value is string => typeof value === "string",
+  inStock: (value): value is boolean => typeof value === "boolean",
+  metadata: (value): value is Product["metadata"] => typeof value === "object",
+};
+
+// 11. Schemas en runtime, uno por variante de CatalogItem
+const baseEntitySchema = {
+  createdAt: field.date(),
+  updatedAt: field.date(),
+  version: field.number({ min: 1 }),
+};
+
+const productSchema = createSchema<Product>({
+  ...baseEntitySchema,
+  id: field.string({ pattern: /^product_/ }),
+  type: field.oneOf(["product"]),
+  name: field.string({ pattern: /\S/ }),
+  price: field.number({ min: 0 }),
+  category: field.string(),
+  inStock: field.boolean(),
+  metadata: field.object({
+    weight: field.number({ min: 0 }),
+    dimensions: field.object({
+      width: field.number({ min: 0 }),
+      height: field.number({ min: 0 }),
+      depth: field.number({ min: 0 }),
+    }),
+    tags: field.array(field.string()),
+  }),
+});
+
+const serviceSchema = createSchema<Service>({
+  ...baseEntitySchema,
+  id: field.string({ pattern: /^service_/ }),
+  type: field.oneOf(["service"]),
+  name: field.string({ pattern: /\S/ }),
+  hourlyRate: field.number({ min: 0 }),
+  category: field.string(),
+  available: field.boolean(),
+  metadata: field.object({
+    duration: field.number({ min: 0 }),
+    requirements: field.array(field.string()),
+    location: field.oneOf(["remote", "onsite", "hybrid"]),
+  }),
+});
+
+const subscriptionSchema = createSchema<Subscription>({
+  ...baseEntitySchema,
+  id: field.string({ pattern: /^subscription_/ }),
+  type: field.oneOf(["subscription"]),
+  name: field.string({ pattern: /\S/ }),
+  monthlyPrice: field.number({ min: 0 }),
+  category: field.string(),
+  active: field.boolean(),
+  metadata: field.object({
+    features: field.array(field.string()),
+    limits: field.object({
+      users: field.number({ min: 1 }),
+      storage: field.number({ min: 0 }),
+    }),
+    billingCycle: field.oneOf(["monthly", "yearly"]),
+  }),
+});
+
+// Una entrada por discriminante: agregar una variante a CatalogItem sin
+// su schema no compila
+export const catalogSchemas: {
+  [K in CatalogItem["type"]]: CreateValidationSchema<
+    Extract<CatalogItem, { type: K }>
+  >;
+} = {
+  product: productSchema,
+  service: serviceSchema,
+  subscription: subscriptionSchema,
+};
+
+export function validateCatalogItem(value: unknown): ValidationResult<CatalogItem> {
+  const type = (value as { type?: unknown } | null)?.type;
+  if (typeof type !== "string" || !(type in catalogSchemas)) {
+    return {
+      valid: false,
+      issues: [
+        {
+          path: "$.type",
+          code: "enum",
+          message: `$.type must be one of ${Object.keys(catalogSchemas).join(", ")}`,
+        },
+      ],
+    };
+  }
+  return validate<CatalogItem>(
+    catalogSchemas[type as CatalogItem["type"]],
+    value
+  );
+}
+
+// 12. Validators derivados de los schemas: mismas reglas que validate()
+function createValidators<T>(
+  schema: CreateValidationSchema<T>
+): CreateValidators<T> {
+  return Object.fromEntries(
+    Object.entries<AnyFieldSchema>(schema).map(([key, fieldSchema]) => [
+      key,
+      (value: unknown) => validateField(fieldSchema, value).length === 0,
+    ])
+  ) as CreateValidators<T>;
+}
+
+const catalogValidators: {
+  [K in CatalogItem["type"]]: CreateValidators<
+    Extract<CatalogItem, { type: K }>
+  >;
+} = {
+  product: createValidators(productSchema),
+  service: createValidators(serviceSchema),
+  subscription: createValidators(subscriptionSchema),
+};
+
+// 13. Implementación de CreateAccessors<T>
+class AccessorValidationError extends Error {
+  constructor(
+    readonly field: string,
+    readonly value: unknown
+  ) {
+    super(`Invalid value for ${field}: ${JSON.stringify(value)}`);
+    this.name = "AccessorValidationError";
+  }
+}
+
+// Cada setter valida, incrementa version, actualiza updatedAt y emite el
+// evento del cambio. Getters y setters copian los valores: modificar un
+// objeto devuelto no altera el item sin pasar por su setter
+export function createAccessors<T extends CatalogItem>(
+  item: T,
+  options: {
+    userId: string;
+    onChange: (event: ToEventType<T>) => void;
+    validators?: CreateValidators<T>;
+  }
+): CreateAccessors<T> {
+  const validators =
+    options.validators ??
+    (catalogValidators[item.type] as unknown as CreateValidators<T>);
+  const fields = item as unknown as Record<string, unknown>;
+  const accessors: Record<string, (value?: unknown) => unknown> = {};
+
+  // Las keys salen del item, no de los validators: uno faltante es un error
+  // y no un accessor que el tipo promete pero no existe
+  for (const key of Object.keys(item)) {
+    if (ENTITY_KEYS.includes(key)) continue;
+    const name = key.charAt(0).toUpperCase() + key.slice(1);
+    const validator = validators[key as keyof T] as
+      | ((value: unknown) => boolean)
+      | undefined;
+    if (typeof validator !== "function") {
+      throw new Error(`No validator for ${item.type}.${key}`);
+    }
+
+    accessors[`get${name}`] = () => structuredClone(fields[key]);
+    accessors[`set${name}`] = (value) => {
+      if (!validator(value)) throw new AccessorValidationError(key, value);
+
+      fields[key] = structuredClone(value);
+      item.version++;
+      item.updatedAt = new Date();
+      options.onChange(
+        CatalogProcessor.createEvent(
+          item,
+          { [key]: structuredClone(value) } as Partial<
+            Omit<T, "id" | "type" | "createdAt" | "updatedAt" | "version">
+          >,
+          options.userId
+        )
+      );
+    };
+  }
+  return accessors as CreateAccessors<T>;
+}
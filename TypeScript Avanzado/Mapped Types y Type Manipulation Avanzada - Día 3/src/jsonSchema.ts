@@ -0,0 +1,235 @@
+import { AnyFieldSchema, ObjectSchema } from "./schema";
+
+// JSON Schema 2020-12 y OpenAPI 3.1 generados desde los mismos schemas de
+// runtime que usa validate(): contrato publicado y validación no divergen
+
+export interface JsonSchema {
+  $ref?: string;
+  type?: "string" | "number" | "boolean" | "array" | "object";
+  format?: "date-time";
+  const?: string;
+  enum?: readonly string[];
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  oneOf?: JsonSchema[];
+  // Palabra clave de OpenAPI; JSON Schema la ignora
+  discriminator?: { propertyName: string; mapping: Record<string, string> };
+}
+
+export interface JsonSchemaDocument extends JsonSchema {
+  $schema: string;
+  $id: string;
+  $defs: Record<string, JsonSchema>;
+}
+
+export interface OpenApiDocument {
+  openapi: "3.1.0";
+  info: { title: string; version: string };
+  jsonSchemaDialect: string;
+  paths: Record<string, never>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+// Mismas keys que omiten ToApiResponse, ToUpdateRequest y CreateAccessors
+export const ENTITY_KEYS: readonly string[] = [
+  "id",
+  "type",
+  "createdAt",
+  "updatedAt",
+  "version",
+];
+
+// Discriminante -> schema del item, p.ej. { product: productSchema }
+export type CatalogSchemaSources = Record<string, ObjectSchema>;
+
+// pattern no admite flags: los que cambian qué coincide no se pueden publicar.
+// u es la semántica que ya usan los validadores de JSON Schema; g e y solo
+// afectan a lastIndex
+const UNSUPPORTED_PATTERN_FLAGS = /[imsv]/;
+
+function patternSource(pattern: RegExp): string {
+  if (UNSUPPORTED_PATTERN_FLAGS.test(pattern.flags)) {
+    throw new Error(
+      `Pattern ${pattern} uses flags JSON Schema cannot express: ${pattern.flags}`
+    );
+  }
+  return pattern.source;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+export function fieldToJsonSchema(schema: AnyFieldSchema): JsonSchema {
+  switch (schema.type) {
+    case "string":
+      // Un solo valor permitido es un const, p.ej. el discriminante
+      if (schema.enum?.length === 1) {
+        return { type: "string", const: schema.enum[0] };
+      }
+      return {
+        type: "string",
+        ...(schema.enum && { enum: schema.enum }),
+        ...(schema.pattern && { pattern: patternSource(schema.pattern) }),
+      };
+    case "number":
+      return {
+        type: "number",
+        ...(schema.min !== undefined && { minimum: schema.min }),
+        ...(schema.max !== undefined && { maximum: schema.max }),
+      };
+    case "boolean":
+      return { type: "boolean" };
+    // En JSON una fecha viaja como string ISO 8601
+    case "date":
+      return { type: "string", format: "date-time" };
+    case "array":
+      return {
+        type: "array",
+        items: fieldToJsonSchema(schema.items),
+        ...(schema.minItems !== undefined && { minItems: schema.minItems }),
+        ...(schema.maxItems !== undefined && { maxItems: schema.maxItems }),
+      };
+    case "object":
+      return objectToJsonSchema(schema.schema);
+    case "any":
+      return {};
+  }
+}
+
+// partial: ningún campo es obligatorio, como Partial<T> en ToUpdateRequest
+export function objectToJsonSchema(
+  schema: ObjectSchema,
+  options: { partial?: boolean } = {}
+): JsonSchema {
+  const entries = Object.entries(schema);
+  return {
+    type: "object",
+    properties: Object.fromEntries(
+      entries.map(([key, field]) => [key, fieldToJsonSchema(field)])
+    ),
+    required: options.partial
+      ? []
+      : entries.filter(([, field]) => field.required).map(([key]) => key),
+    additionalProperties: false,
+  };
+}
+
+function withoutEntityKeys(schema: ObjectSchema): ObjectSchema {
+  return Object.fromEntries(
+    Object.entries(schema).filter(([key]) => !ENTITY_KEYS.includes(key))
+  );
+}
+
+// Definiciones por variante más las uniones discriminadas por type
+function catalogDefinitions(
+  sources: CatalogSchemaSources,
+  ref: (name: string) => string,
+  openApi: boolean
+): Record<string, JsonSchema> {
+  const definitions: Record<string, JsonSchema> = {};
+  const types = Object.keys(sources);
+  const typeSchema = (type: string): JsonSchema => ({
+    type: "string",
+    const: type,
+  });
+
+  for (const [type, schema] of Object.entries(sources)) {
+    const name = capitalize(type);
+    definitions[name] = objectToJsonSchema(schema);
+
+    // ToApiResponse<T>
+    definitions[`${name}ApiResponse`] = {
+      type: "object",
+      properties: {
+        type: typeSchema(type),
+        id: fieldToJsonSchema(schema.id),
+        data: objectToJsonSchema(withoutEntityKeys(schema)),
+        meta: {
+          type: "object",
+          properties: {
+            createdAt: fieldToJsonSchema(schema.createdAt),
+            updatedAt: fieldToJsonSchema(schema.updatedAt),
+            version: fieldToJsonSchema(schema.version),
+          },
+          required: ["createdAt", "updatedAt", "version"],
+          additionalProperties: false,
+        },
+      },
+      required: ["type", "id", "data", "meta"],
+      additionalProperties: false,
+    };
+
+    // ToUpdateRequest<T>
+    definitions[`${name}UpdateRequest`] = {
+      type: "object",
+      properties: {
+        type: typeSchema(type),
+        updates: objectToJsonSchema(withoutEntityKeys(schema), {
+          partial: true,
+        }),
+        reason: { type: "string" },
+      },
+      required: ["type", "updates"],
+      additionalProperties: false,
+    };
+  }
+
+  const union = (suffix: string): JsonSchema => ({
+    oneOf: types.map((type) => ({ $ref: ref(`${capitalize(type)}${suffix}`) })),
+    ...(openApi && {
+      discriminator: {
+        propertyName: "type",
+        mapping: Object.fromEntries(
+          types.map((type) => [type, ref(`${capitalize(type)}${suffix}`)])
+        ),
+      },
+    }),
+  });
+  definitions.CatalogItem = union("");
+  definitions.CatalogApiResponse = union("ApiResponse");
+  definitions.CatalogUpdateRequest = union("UpdateRequest");
+  return definitions;
+}
+
+// El documento en sí valida un CatalogItem; el resto queda en $defs
+export function generateJsonSchema(
+  sources: CatalogSchemaSources,
+  id = "https://example.com/schemas/catalog.json"
+): JsonSchemaDocument {
+  const $defs = catalogDefinitions(sources, (name) => `#/$defs/${name}`, false);
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    $id: id,
+    $ref: "#/$defs/CatalogItem",
+    $defs,
+  };
+}
+
+export function generateOpenApi(
+  sources: CatalogSchemaSources,
+  info: OpenApiDocument["info"]
+): OpenApiDocument {
+  return {
+    openapi: "3.1.0",
+    info,
+    jsonSchemaDialect: JSON_SCHEMA_DIALECT,
+    paths: {},
+    components: {
+      schemas: catalogDefinitions(
+        sources,
+        (name) => `#/components/schemas/${name}`,
+        true
+      ),
+    },
+  };
+}
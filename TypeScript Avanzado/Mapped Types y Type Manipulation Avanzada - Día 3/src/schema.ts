@@ -0,0 +1,296 @@
+// Schemas de validación en runtime cuya forma sale de CreateValidationSchema<T>:
+// si el modelo cambia, el schema deja de compilar en lugar de quedar desfasado
+
+export interface StringFieldSchema {
+  type: "string";
+  required: boolean;
+  pattern?: RegExp;
+  // Valores permitidos, p.ej. para uniones de literales
+  enum?: readonly string[];
+}
+
+export interface NumberFieldSchema {
+  type: "number";
+  required: boolean;
+  min?: number;
+  max?: number;
+}
+
+export interface BooleanFieldSchema {
+  type: "boolean";
+  required: boolean;
+}
+
+export interface DateFieldSchema {
+  type: "date";
+  required: boolean;
+}
+
+export interface ArrayFieldSchema<I = AnyFieldSchema> {
+  type: "array";
+  required: boolean;
+  items: I;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ObjectFieldSchema<S = ObjectSchema> {
+  type: "object";
+  required: boolean;
+  schema: S;
+}
+
+export interface UnknownFieldSchema {
+  type: "any";
+  required: boolean;
+}
+
+export type AnyFieldSchema =
+  | StringFieldSchema
+  | NumberFieldSchema
+  | BooleanFieldSchema
+  | DateFieldSchema
+  | ArrayFieldSchema
+  | ObjectFieldSchema
+  | UnknownFieldSchema;
+
+export type ObjectSchema = { [field: string]: AnyFieldSchema };
+
+// Schema de un valor según su tipo. Date va antes que object y los arrays
+// describen a sus elementos en items
+export type FieldSchema<V> = V extends string
+  ? StringFieldSchema
+  : V extends number
+  ? NumberFieldSchema
+  : V extends boolean
+  ? BooleanFieldSchema
+  : V extends Date
+  ? DateFieldSchema
+  : V extends readonly (infer U)[]
+  ? ArrayFieldSchema<FieldSchema<U>>
+  : V extends object
+  ? ObjectFieldSchema<CreateValidationSchema<V>>
+  : UnknownFieldSchema;
+
+// Se distribuye sobre uniones: CreateValidationSchema<A | B> es el schema
+// de A o el de B
+export type CreateValidationSchema<T> = {
+  [K in keyof T]: FieldSchema<T[K]>;
+};
+
+type FieldOptions<S> = Partial<Omit<S, "type">>;
+
+// Builders: required es true salvo que se indique lo contrario
+export const field = {
+  string(options: FieldOptions<StringFieldSchema> = {}): StringFieldSchema {
+    return { type: "string", required: true, ...options };
+  },
+
+  oneOf(
+    values: readonly string[],
+    options: FieldOptions<Omit<StringFieldSchema, "enum">> = {}
+  ): StringFieldSchema {
+    return field.string({ ...options, enum: values });
+  },
+
+  number(options: FieldOptions<NumberFieldSchema> = {}): NumberFieldSchema {
+    return { type: "number", required: true, ...options };
+  },
+
+  boolean(options: FieldOptions<BooleanFieldSchema> = {}): BooleanFieldSchema {
+    return { type: "boolean", required: true, ...options };
+  },
+
+  date(options: FieldOptions<DateFieldSchema> = {}): DateFieldSchema {
+    return { type: "date", required: true, ...options };
+  },
+
+  array<I extends AnyFieldSchema>(
+    items: I,
+    options: FieldOptions<Omit<ArrayFieldSchema<I>, "items">> = {}
+  ): ArrayFieldSchema<I> {
+    return { type: "array", required: true, items, ...options };
+  },
+
+  object<S extends ObjectSchema>(
+    schema: S,
+    options: FieldOptions<Omit<ObjectFieldSchema<S>, "schema">> = {}
+  ): ObjectFieldSchema<S> {
+    return { type: "object", required: true, schema, ...options };
+  },
+
+  any(options: FieldOptions<UnknownFieldSchema> = {}): UnknownFieldSchema {
+    return { type: "any", required: true, ...options };
+  },
+};
+
+// Identidad en runtime; en compilación exige un campo por cada key de T
+export function createSchema<T>(
+  schema: CreateValidationSchema<T>
+): CreateValidationSchema<T> {
+  return schema;
+}
+
+export interface ValidationIssue {
+  // p.ej. $.metadata.dimensions.width o $.metadata.tags[2]
+  path: string;
+  code: "required" | "type" | "enum" | "pattern" | "min" | "max" | "unknown";
+  message: string;
+}
+
+export type ValidationResult<T> =
+  { valid: true; value: T } | { valid: false; issues: ValidationIssue[] };
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (value instanceof Date) return "date";
+  return typeof value;
+}
+
+function issue(
+  path: string,
+  code: ValidationIssue["code"],
+  message: string
+): ValidationIssue {
+  return { path, code, message };
+}
+
+// Copia sin g ni y: con esos flags test() depende del lastIndex anterior
+function matches(pattern: RegExp, value: string): boolean {
+  return new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, "")).test(
+    value
+  );
+}
+
+function checkRange(
+  path: string,
+  actual: number,
+  limits: { min?: number; max?: number },
+  unit: string
+): ValidationIssue[] {
+  if (limits.min !== undefined && actual < limits.min) {
+    return [
+      issue(path, "min", `${path} must be at least ${limits.min}${unit}`),
+    ];
+  }
+  if (limits.max !== undefined && actual > limits.max) {
+    return [issue(path, "max", `${path} must be at most ${limits.max}${unit}`)];
+  }
+  return [];
+}
+
+function fieldIssues(
+  schema: AnyFieldSchema,
+  value: unknown,
+  path: string
+): ValidationIssue[] {
+  if (value === undefined) {
+    return schema.required
+      ? [issue(path, "required", `${path} is required`)]
+      : [];
+  }
+  const typeError = () => [
+    issue(
+      path,
+      "type",
+      `${path} must be ${schema.type}, received ${describe(value)}`
+    ),
+  ];
+
+  switch (schema.type) {
+    case "any":
+      return [];
+    case "string":
+      if (typeof value !== "string") return typeError();
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [
+          issue(
+            path,
+            "enum",
+            `${path} must be one of ${schema.enum.join(", ")}`
+          ),
+        ];
+      }
+      if (schema.pattern && !matches(schema.pattern, value)) {
+        return [issue(path, "pattern", `${path} must match ${schema.pattern}`)];
+      }
+      return [];
+    case "number":
+      if (typeof value !== "number" || Number.isNaN(value)) return typeError();
+      return checkRange(path, value, schema, "");
+    case "boolean":
+      return typeof value === "boolean" ? [] : typeError();
+    case "date":
+      return value instanceof Date && !Number.isNaN(value.getTime())
+        ? []
+        : typeError();
+    case "array":
+      if (!Array.isArray(value)) return typeError();
+      return [
+        ...checkRange(
+          path,
+          value.length,
+          { min: schema.minItems, max: schema.maxItems },
+          " items"
+        ),
+        ...value.flatMap((item, index) =>
+          fieldIssues(schema.items, item, `${path}[${index}]`)
+        ),
+      ];
+    case "object":
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return typeError();
+      }
+      return objectIssues(
+        schema.schema,
+        value as Record<string, unknown>,
+        path
+      );
+  }
+}
+
+// Estricto: un campo que el schema no declara también es un error
+function objectIssues(
+  schema: ObjectSchema,
+  value: Record<string, unknown>,
+  path: string
+): ValidationIssue[] {
+  const unknown = Object.keys(value)
+    .filter((key) => !Object.prototype.hasOwnProperty.call(schema, key))
+    .map((key) =>
+      issue(`${path}.${key}`, "unknown", `${path}.${key} is not allowed`)
+    );
+
+  return [
+    ...unknown,
+    ...Object.entries(schema).flatMap(([key, fieldSchema]) =>
+      fieldIssues(fieldSchema, value[key], `${path}.${key}`)
+    ),
+  ];
+}
+
+// Ejecuta el schema y reporta todos los problemas con su path
+export function validate<T>(
+  schema: CreateValidationSchema<T>,
+  value: unknown,
+  path = "$"
+): ValidationResult<T> {
+  const issues = fieldIssues(
+    { type: "object", required: true, schema: schema as ObjectSchema },
+    value,
+    path
+  );
+  return issues.length === 0
+    ? { valid: true, value: value as T }
+    : { valid: false, issues };
+}
+
+// Un solo campo, p.ej. el valor que recibe un setter
+export function validateField(
+  schema: AnyFieldSchema,
+  value: unknown,
+  path = "$"
+): ValidationIssue[] {
+  return fieldIssues(schema, value, path);
+}
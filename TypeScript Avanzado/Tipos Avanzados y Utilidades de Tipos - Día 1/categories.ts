@@ -0,0 +1,151 @@
+import type { ProductCategory } from ".";
+
+export type ProductKind = "physical" | "digital";
+
+export type FieldType = "string" | "number" | "boolean";
+
+// Forma del metadata: tipo primitivo por campo u objeto anidado
+export interface MetadataSchema {
+  [field: string]: FieldType | MetadataSchema;
+}
+
+export interface CategoryDefinition {
+  id: ProductCategory;
+  displayName: string;
+  parent?: ProductCategory;
+  // Campos propios; se suman a los heredados del parent
+  metadata?: MetadataSchema;
+}
+
+export class CategoryRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CategoryRegistryError";
+  }
+}
+
+export function categoryKind(category: ProductCategory): ProductKind {
+  return category.startsWith("physical_") ? "physical" : "digital";
+}
+
+function mergeSchemas(
+  parent: MetadataSchema,
+  child: MetadataSchema
+): MetadataSchema {
+  const result: MetadataSchema = { ...parent };
+  for (const [field, type] of Object.entries(child)) {
+    const inherited = result[field];
+    result[field] =
+      typeof inherited === "object" && typeof type === "object"
+        ? mergeSchemas(inherited, type)
+        : type;
+  }
+  return result;
+}
+
+export class CategoryRegistry {
+  private categories = new Map<ProductCategory, CategoryDefinition>();
+
+  register(definition: CategoryDefinition): this {
+    const { id, parent } = definition;
+    if (this.categories.has(id)) {
+      throw new CategoryRegistryError(`Category ${id} is already registered`);
+    }
+    if (parent !== undefined) {
+      if (!this.categories.has(parent)) {
+        throw new CategoryRegistryError(
+          `Parent category ${parent} of ${id} is not registered`
+        );
+      }
+      // Un hijo siempre es de la misma variante que su padre
+      if (categoryKind(parent) !== categoryKind(id)) {
+        throw new CategoryRegistryError(
+          `Category ${id} cannot have ${parent} as parent`
+        );
+      }
+    }
+
+    this.categories.set(id, definition);
+    return this;
+  }
+
+  has(id: string): id is ProductCategory {
+    return this.categories.has(id as ProductCategory);
+  }
+
+  get(id: ProductCategory): CategoryDefinition | undefined {
+    return this.categories.get(id);
+  }
+
+  list(): CategoryDefinition[] {
+    return [...this.categories.values()];
+  }
+
+  children(id: ProductCategory): CategoryDefinition[] {
+    return this.list().filter((category) => category.parent === id);
+  }
+
+  // Desde la raíz hasta la categoría incluida
+  lineage(id: ProductCategory): CategoryDefinition[] {
+    const result: CategoryDefinition[] = [];
+    for (
+      let current = this.categories.get(id);
+      current;
+      current = current.parent && this.categories.get(current.parent)
+    ) {
+      result.unshift(current);
+    }
+    return result;
+  }
+
+  // Schema efectivo: el de la categoría más todo lo heredado
+  metadataSchema(id: ProductCategory): MetadataSchema | undefined {
+    if (!this.categories.has(id)) return undefined;
+    return this.lineage(id).reduce<MetadataSchema>(
+      (schema, category) => mergeSchemas(schema, category.metadata ?? {}),
+      {}
+    );
+  }
+}
+
+// Catálogo de categorías de la tienda. Las raíces fijan el metadata común
+// a cada variante (PhysicalProduct / DigitalProduct)
+export const categoryRegistry = new CategoryRegistry()
+  .register({
+    id: "physical_goods",
+    displayName: "Physical goods",
+    metadata: {
+      weight: "number",
+      dimensions: { width: "number", height: "number", depth: "number" },
+    },
+  })
+  .register({
+    id: "physical_books",
+    displayName: "Books",
+    parent: "physical_goods",
+  })
+  .register({
+    id: "physical_electronics",
+    displayName: "Electronics",
+    parent: "physical_goods",
+  })
+  .register({
+    id: "digital_goods",
+    displayName: "Digital goods",
+    metadata: { fileSize: "number", format: "string" },
+  })
+  .register({
+    id: "digital_ebooks",
+    displayName: "E-books",
+    parent: "digital_goods",
+  })
+  .register({
+    id: "digital_software",
+    displayName: "Software",
+    parent: "digital_goods",
+  })
+  .register({
+    id: "digital_courses",
+    displayName: "Online courses",
+    parent: "digital_goods",
+  });
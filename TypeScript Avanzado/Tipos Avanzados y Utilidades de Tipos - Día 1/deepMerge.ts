@@ -0,0 +1,128 @@
+type Primitive = string | number | boolean | bigint | symbol | null | undefined;
+
+// Distributivo: DeepPartial<A | B> = DeepPartial<A> | DeepPartial<B>, así
+// un patch sigue siendo de una sola variante de la unión.
+// Date y funciones se reemplazan completos; los elementos de un array solo
+// pueden ser parciales con la estrategia mergeByKey: replace y append los
+// copian tal cual
+export type DeepPartial<T, A extends ArrayStrategy = "replace"> = T extends
+  | Primitive
+  | Date
+  | Function
+  ? T
+  : T extends readonly (infer U)[]
+    ? A extends { mergeByKey: string }
+      ? DeepPartial<U, A>[]
+      : U[]
+    : T extends object
+      ? { [K in keyof T]?: DeepPartial<T[K], A> }
+      : T;
+
+// Omit que respeta las uniones discriminadas
+export type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+export type ArrayStrategy = "replace" | "append" | { mergeByKey: string };
+
+export interface DeepMergeOptions {
+  // Estrategia por defecto para todos los arrays
+  arrays?: ArrayStrategy;
+  // Estrategia por ruta, p.ej. { tags: "append", "variants": { mergeByKey: "sku" } }.
+  // Dentro de un array la ruta usa [] en lugar del índice: "variants[].prices"
+  arrayPaths?: Record<string, ArrayStrategy>;
+  // false: un campo que no existe en base es un error y no se agrega
+  allowNewKeys?: boolean;
+}
+
+export class MergeConflictError extends Error {
+  constructor(
+    readonly path: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "MergeConflictError";
+  }
+}
+
+// Nunca se copian claves que alteren prototipos
+export const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+// Devuelve una copia nueva: ni base ni patch quedan compartidos con el resultado
+// El tipo del patch sigue a options.arrays; con arrayPaths se indica A a mano,
+// p.ej. deepMerge<Catalog, { mergeByKey: string }>(...)
+export function deepMerge<T, A extends ArrayStrategy = "replace">(
+  base: T,
+  patch: DeepPartial<T, NoInfer<A>>,
+  options: DeepMergeOptions & { arrays?: A } = {}
+): T {
+  return mergeValue(base, patch, "", options) as T;
+}
+
+function mergeValue(
+  base: unknown,
+  patch: unknown,
+  path: string,
+  options: DeepMergeOptions
+): unknown {
+  // undefined significa "sin cambios"; null sí reemplaza
+  if (patch === undefined) return structuredClone(base);
+  if (Array.isArray(patch)) {
+    return mergeArrays(Array.isArray(base) ? base : [], patch, path, options);
+  }
+  if (!isPlainObject(patch) || !isPlainObject(base)) {
+    return structuredClone(patch);
+  }
+
+  const result = structuredClone(base);
+  for (const [key, value] of Object.entries(patch)) {
+    if (UNSAFE_KEYS.has(key) || value === undefined) continue;
+
+    const childPath = path ? `${path}.${key}` : key;
+    if (!(key in base) && options.allowNewKeys === false) {
+      throw new MergeConflictError(childPath, `Unknown field ${childPath}`);
+    }
+    result[key] = mergeValue(base[key], value, childPath, options);
+  }
+  return result;
+}
+
+function mergeArrays(
+  base: unknown[],
+  patch: unknown[],
+  path: string,
+  options: DeepMergeOptions
+): unknown[] {
+  const strategy = options.arrayPaths?.[path] ?? options.arrays ?? "replace";
+
+  if (strategy === "replace") return structuredClone(patch);
+  if (strategy === "append") return structuredClone([...base, ...patch]);
+
+  // mergeByKey: los elementos con la misma clave se combinan, el resto se agrega
+  const { mergeByKey: key } = strategy;
+  const result = structuredClone(base);
+  const itemPath = `${path}[]`;
+
+  for (const item of patch) {
+    const id = isPlainObject(item) ? item[key] : undefined;
+    const index =
+      id === undefined
+        ? -1
+        : result.findIndex(
+            (existing) => isPlainObject(existing) && existing[key] === id
+          );
+
+    if (index === -1) {
+      result.push(structuredClone(item));
+    } else {
+      result[index] = mergeValue(result[index], item, itemPath, options);
+    }
+  }
+  return result;
+}
@@ -2,9 +2,50 @@
 
 //EJERCICIO
 
+import { randomUUID } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Readable } from "stream";
+import { categoryKind, categoryRegistry, ProductKind } from "./categories";
+import {
+  deepMerge,
+  DeepPartial,
+  DistributiveOmit,
+  MergeConflictError,
+} from "./deepMerge";
+import { Inventory, LowStockEvent, StockChangeEvent } from "./inventory";
+import { JsonFilePriceStore, PriceBook, ResolvedPrice } from "./pricing";
+import {
+  exportProducts,
+  ImportOptions,
+  ImportReport,
+  importProducts,
+  ProductImportTarget,
+  ProductFileFormat,
+} from "./productImport";
+import {
+  InMemoryProductRepository,
+  JsonFileProductRepository,
+  ProductRepository,
+} from "./productRepository";
+import {
+  IndexedProductRepository,
+  ProductSearchPage,
+  ProductSearchQuery,
+} from "./productSearch";
+import {
+  err,
+  FieldError,
+  metadataErrors,
+  ok,
+  Result,
+  validateCreateProduct,
+} from "./validation";
+
 type PhysicalCategory = `physical_${string}`;
 type DigitalCategory = `digital_${string}`;
-type ProductCategory = PhysicalCategory | DigitalCategory;
+export type ProductCategory = PhysicalCategory | DigitalCategory;
 
 interface BaseProduct {
   id: string;
@@ -35,127 +76,448 @@ interface DigitalProduct extends BaseProduct {
     format: string;
   };
 }
-type Product = PhysicalProduct | DigitalProduct;
+export type Product = PhysicalProduct | DigitalProduct;
 
-function isPhysicalProduct(data: unknown): data is PhysicalProduct {
+// Los guards salen del registry: la categoría tiene que estar registrada y
+// el metadata tiene que cumplir su schema, así nunca se contradicen
+function isProductOfKind(data: unknown, kind: ProductKind): boolean {
+  const category = (data as any)?.category;
   return (
-    typeof (data as any).category === "string" &&
-    (data as any).category.startsWith("physical-") &&
-    typeof (data as any).metadata?.weight === "number" &&
-    typeof (data as any).metadata?.dimensions?.width === "number" &&
-    typeof (data as any).metadata?.dimensions?.height === "number" &&
-    typeof (data as any).metadata?.dimensions?.depth === "number"
+    typeof category === "string" &&
+    categoryRegistry.has(category) &&
+    categoryKind(category) === kind &&
+    metadataErrors(category, (data as any).metadata).length === 0
   );
 }
 
-function isDigitalProduct(data: unknown): data is DigitalProduct {
-  return (
-    typeof (data as any).category === "string" &&
-    (data as any).category.startsWith("digital-") &&
-    typeof (data as any).metadata?.fileSize === "number" &&
-    typeof (data as any).metadata?.format === "string"
-  );
+export function isPhysicalProduct(data: unknown): data is PhysicalProduct {
+  return isProductOfKind(data, "physical");
+}
+
+export function isDigitalProduct(data: unknown): data is DigitalProduct {
+  return isProductOfKind(data, "digital");
 }
 
 // Transformaciones declarativas
-type CreateProductRequest = Omit<Product, "id">;
-type UpdateProductRequest = DeepPartial<Omit<Product, "id">>;
+export type CreateProductRequest = DistributiveOmit<Product, "id" | "inStock">;
+export type UpdateProductRequest = DeepPartial<DistributiveOmit<Product, "id">>;
+// Mismo criterio que validateCreateProduct, sin el detalle de cada campo
+export function isValidCreateProduct(
+  data: unknown
+): data is CreateProductRequest {
+  return validateCreateProduct(data).ok;
+}
+
 type ProductSummary = Pick<Product, "id" | "name" | "price" | "inStock">;
-type ProductSearchResult = Pick<Product, "id" | "name" | "price" | "category">;
-
-// Validation system con conditional types
-type ValidationResult<T> = T extends object
-  ? { success: true; data: T; errors?: never }
-  : { success: false; data?: never; errors: string[] };
-
-// Type guards con utility types
-function isValidCreateProduct(data: unknown): data is CreateProductRequest {
-  const validation =
-    typeof data === "object" &&
-    data !== null &&
-    typeof (data as any).name === "string" &&
-    typeof (data as any).price === "number" &&
-    typeof (data as any).category === "string" &&
-    typeof (data as any).description === "string" &&
-    typeof (data as any).inStock === "boolean" &&
-    Array.isArray((data as any).tags) &&
-    typeof (data as any).metadata === "object";
-  if (!validation) {
-    return false;
-  }
-
-  return isPhysicalProduct(data) || isDigitalProduct(data);
+export type ProductSearchResult = Pick<
+  Product,
+  "id" | "name" | "price" | "category"
+>;
+
+// Aplica un patch sin permitir que el producto cambie de variante: ni la
+// categoría puede pasar de physical_ a digital_ (o al revés) ni el metadata
+// puede recibir campos de la otra variante
+function mergeProductUpdate(
+  product: Product,
+  updates: UpdateProductRequest
+): Product {
+  const from = categoryKind(product.category);
+  if (updates.category && categoryKind(updates.category) !== from) {
+    throw new MergeConflictError(
+      "category",
+      `Cannot change a ${from} product into a ${categoryKind(updates.category)} product`
+    );
+  }
+
+  return deepMerge<Product>(product, updates, { allowNewKeys: false });
 }
 
+// Errores del service, discriminados por code
+export type ProductError =
+  | { code: "VALIDATION_FAILED"; errors: FieldError[] }
+  | { code: "NOT_FOUND"; id: string }
+  | { code: "CONFLICT"; path: string; message: string };
+
 // Service con transformaciones automáticas
 class ProductService {
-  async createProduct(
-    data: unknown
-  ): Promise<ValidationResult<Product | null>> {
-    if (!isValidCreateProduct(data)) {
-      return {
-        success: false,
-        errors: ["Invalid product data format"],
-      };
+  private repository: IndexedProductRepository;
+  // Sincronizaciones de inStock en curso; las lecturas y escrituras las esperan
+  private pendingSyncs = new Set<Promise<void>>();
+
+  constructor(
+    repository: ProductRepository,
+    readonly inventory: Inventory = new Inventory(),
+    readonly pricing: PriceBook = new PriceBook()
+  ) {
+    // Todas las escrituras pasan por el índice de búsqueda, que filtra y
+    // ordena por el precio vigente, con ofertas incluidas
+    this.repository = new IndexedProductRepository(repository, {
+      priceOf: (product) => this.currentPrice(product.id, product.price),
+    });
+
+    // inStock se deriva del inventario, nunca se edita a mano. Cada sync
+    // espera a las anteriores: si corrieran a la vez, una lectura vieja
+    // podría dejar guardado un inStock que ya no vale
+    inventory.on("stockChange", (event: StockChangeEvent) => {
+      const sync = Promise.all(this.pendingSyncs)
+        .then(() => this.syncStock(event))
+        .catch((error) =>
+          console.error(`Failed to sync stock of ${event.productId}:`, error)
+        )
+        .finally(() => this.pendingSyncs.delete(sync));
+      this.pendingSyncs.add(sync);
+    });
+  }
+
+  // seats: limita un producto digital a ese número de licencias.
+  // id: conserva el id de origen, p.ej. al importar un catálogo exportado
+  createProduct(
+    data: unknown,
+    options: { seats?: number; id?: string } = {}
+  ): Promise<Result<Product, ProductError>> {
+    return this.create(data, options);
+  }
+
+  // pending: el producto se acumula ahí en lugar de guardarse (ver import)
+  private async create(
+    data: unknown,
+    options: { seats?: number; id?: string },
+    pending?: Map<string, Product>
+  ): Promise<Result<Product, ProductError>> {
+    const validation = validateCreateProduct(data);
+    if (!validation.ok) {
+      return err({ code: "VALIDATION_FAILED", errors: validation.error });
     }
+    // Las licencias solo limitan productos digitales
+    const { category } = validation.value;
+    if (options.seats !== undefined && !isDigitalProduct(validation.value)) {
+      const message = `seats only apply to digital products, not ${category}`;
+      return err({
+        code: "VALIDATION_FAILED",
+        errors: [
+          {
+            path: "seats",
+            expected: "digital category",
+            received: category,
+            message,
+          },
+        ],
+      });
+    }
+    await this.pricing.ready();
 
+    // Único aunque un import dé de alta muchos en el mismo milisegundo
+    const id = options.id ?? `product_${randomUUID()}`;
+    if (await this.repository.findById(id)) {
+      return err({
+        code: "CONFLICT",
+        path: "id",
+        message: `Product ${id} already exists`,
+      });
+    }
+    // Un id borrado del catálogo puede seguir con su inventario
+    if (!this.inventory.isTracked(id)) {
+      this.inventory.track({ id, category }, options);
+    }
     const product: Product = {
-      id: `product_${Date.now()}`,
-      ...data,
+      ...validation.value,
+      id,
+      inStock: this.inventory.isInStock(id),
     };
+    this.pricing.setListPrice(product.id, product.price);
 
-    await this.repository.save(product);
+    await this.store(product, pending);
+    return ok(this.withCurrentPrice(product));
+  }
 
-    return {
-      success: true,
-      data: product,
-    };
+  async getProduct(id: string): Promise<Product | undefined> {
+    await this.stockSynced();
+    await this.pricing.ready();
+    const product = await this.repository.findById(id);
+    return product && this.withCurrentPrice(product);
+  }
+
+  // Precio vigente en un momento dado, para conciliar pedidos
+  async priceAt(id: string, at: Date): Promise<ResolvedPrice | undefined> {
+    await this.pricing.ready();
+    return this.pricing.priceAt(id, at);
   }
 
-  async updateProduct(
+  updateProduct(
     id: string,
     updates: UpdateProductRequest
-  ): Promise<ValidationResult<Product | null>> {
-    const existingProduct = await this.repository.findById(id);
+  ): Promise<Result<Product, ProductError>> {
+    return this.update(id, updates);
+  }
 
+  private async update(
+    id: string,
+    updates: UpdateProductRequest,
+    pending?: Map<string, Product>
+  ): Promise<Result<Product, ProductError>> {
+    await this.stockSynced();
+    await this.pricing.ready();
+    const existingProduct = await this.repository.findById(id);
     if (!existingProduct) {
-      return {
-        success: false,
-        errors: ["Product not found"],
-      };
+      return err({ code: "NOT_FOUND", id });
     }
 
     // Deep merge con type safety
-    const updatedProduct: Product = {
-      ...existingProduct,
-      ...updates,
-      metadata: {
-        ...existingProduct.metadata,
-        ...updates.metadata,
-        dimensions: {
-          ...existingProduct.metadata.dimensions,
-          ...updates.metadata?.dimensions,
-        },
-      },
-    };
+    let updatedProduct: Product;
+    try {
+      updatedProduct = mergeProductUpdate(existingProduct, updates);
+    } catch (error) {
+      if (!(error instanceof MergeConflictError)) throw error;
+      return err({
+        code: "CONFLICT",
+        path: error.path,
+        message: error.message,
+      });
+    }
 
-    await this.repository.save(updatedProduct);
+    // El resultado se valida completo: el patch pudo romper cualquier campo
+    const { id: _id, ...fields } = updatedProduct;
+    const validation = validateCreateProduct(fields);
+    if (!validation.ok) {
+      return err({ code: "VALIDATION_FAILED", errors: validation.error });
+    }
+
+    // Persistido antes de este proceso: se siembra con el inStock guardado
+    // para que no pase a false por no tener inventario
+    if (!this.inventory.isTracked(id)) {
+      this.inventory.track(updatedProduct, {
+        inStock: existingProduct.inStock,
+      });
+      // El track emite stockChange: su sync escribe sobre el producto anterior
+      // y tiene que terminar antes que este save, no después
+      await this.stockSynced();
+    }
+    updatedProduct.inStock = this.inventory.isInStock(id);
+
+    // Un cambio de precio abre una entrada nueva en el historial
+    if (updatedProduct.price !== existingProduct.price) {
+      this.pricing.setListPrice(id, updatedProduct.price);
+    }
 
-    return {
-      success: true,
-      data: updatedProduct,
+    await this.store(updatedProduct, pending);
+    return ok(this.withCurrentPrice(updatedProduct));
+  }
+
+  private async store(product: Product, pending?: Map<string, Product>) {
+    if (pending) {
+      pending.set(product.id, product);
+      return;
+    }
+    await this.repository.save(product);
+    await this.pricing.flush();
+  }
+
+  // El archivo se procesa como stream, fila por fila. Catálogo y precios se
+  // escriben una sola vez al final, no en cada fila
+  importProducts(
+    input: AsyncIterable<string | Buffer>,
+    options: ImportOptions
+  ): Promise<ImportReport> {
+    const pending = new Map<string, Product>();
+    const target: ProductImportTarget = {
+      getProduct: (id) => this.getProduct(id),
+      createProduct: (data, createOptions = {}) =>
+        this.create(data, createOptions, pending),
+      updateProduct: (id, updates) => this.update(id, updates, pending),
     };
+
+    return this.pricing.batch(async () => {
+      try {
+        return await importProducts(target, input, options);
+      } finally {
+        await this.repository.saveMany([...pending.values()]);
+      }
+    });
   }
 
-  async searchProducts(query: string): Promise<ProductSearchResult[]> {
-    const products = await this.repository.search(query);
+  // Exporta el precio de lista guardado: reimportar no convierte una oferta
+  // en precio de lista
+  async exportProducts(
+    output: NodeJS.WritableStream,
+    format: ProductFileFormat
+  ): Promise<number> {
+    await this.stockSynced();
+    return exportProducts(await this.repository.findAll(), output, format);
+  }
 
-    // Transformación automática a search result format
-    return products.map((product) => ({
-      id: product.id,
-      name: product.name,
-      price: product.price,
-      category: product.category,
-    }));
+  // Antes de leer vencen las reservas: su stockChange también se sincroniza
+  private async stockSynced() {
+    this.inventory.releaseExpired();
+    await Promise.all(this.pendingSyncs);
+  }
+
+  private async syncStock({ productId, inStock }: StockChangeEvent) {
+    const product = await this.repository.findById(productId);
+    // Aún no guardado (p.ej. durante createProduct) o sin cambios
+    if (!product || product.inStock === inStock) return;
+
+    await this.repository.save({ ...product, inStock });
+  }
+
+  async searchProducts(query: ProductSearchQuery): Promise<ProductSearchPage> {
+    await this.stockSynced();
+    await this.pricing.ready();
+    return this.repository.query(query);
+  }
+
+  private withCurrentPrice(product: Product): Product {
+    return { ...product, price: this.currentPrice(product.id, product.price) };
+  }
+
+  // Productos persistidos antes de tener historial conservan su precio
+  private currentPrice(id: string, storedPrice: number): number {
+    return this.pricing.currentPrice(id)?.amount ?? storedPrice;
   }
 }
+
+// Uso del service con ambos repositories
+async function demonstrateProductService() {
+  // El catálogo persistido guarda también su historial de precios
+  const repositories: [string, ProductRepository, PriceBook][] = [
+    ["memory", new InMemoryProductRepository(), new PriceBook()],
+    [
+      "json",
+      new JsonFileProductRepository(
+        path.join(os.tmpdir(), "product-catalog.json")
+      ),
+      new PriceBook({
+        store: new JsonFilePriceStore(
+          path.join(os.tmpdir(), "product-prices.json")
+        ),
+      }),
+    ],
+  ];
+
+  for (const [name, repository, pricing] of repositories) {
+    const service = new ProductService(repository, new Inventory(), pricing);
+
+    const created = await service.createProduct({
+      name: "TypeScript Handbook",
+      price: 29.99,
+      category: "physical_books",
+      description: "Printed guide to the type system",
+      tags: ["typescript", "books"],
+      metadata: {
+        weight: 0.8,
+        dimensions: { width: 17, height: 24, depth: 3 },
+      },
+    });
+    console.log(`[${name}] Created:`, created);
+
+    // Cada campo inválido llega con su path, tipo esperado y valor recibido
+    const invalid = await service.createProduct({
+      name: "Broken ebook",
+      price: "free",
+      category: "digital_ebooks",
+      metadata: { fileSize: "2MB", format: "pdf", weight: 1 },
+    });
+    if (!invalid.ok && invalid.error.code === "VALIDATION_FAILED") {
+      for (const error of invalid.error.errors) {
+        console.log(`[${name}] Invalid:`, error.message);
+      }
+    }
+
+    if (created.ok) {
+      const updated = await service.updateProduct(created.value.id, {
+        price: 24.99,
+      });
+      console.log(`[${name}] Updated:`, updated);
+
+      // Stock por ubicación con reservas; inStock se actualiza solo
+      const { inventory } = service;
+      inventory.on("lowStock", (event: LowStockEvent) =>
+        console.log(`[${name}] Low stock:`, event)
+      );
+      inventory.receive(created.value.id, "madrid", 6);
+      inventory.receive(created.value.id, "lima", 2);
+      const reservation = inventory.reserve(created.value.id, 3, {
+        ttlMs: 60_000,
+      });
+      inventory.commit(reservation.id);
+      console.log(`[${name}] Stock:`, inventory.levels(created.value.id));
+      const inStock = await service.searchProducts({
+        filters: { inStock: true },
+      });
+      console.log(`[${name}] Products in stock:`, inStock.total);
+
+      // Oferta activa ahora mismo y precio histórico para conciliación
+      service.pricing.scheduleSale(created.value.id, {
+        from: new Date(),
+        to: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        percentOff: 20,
+        label: "Launch week",
+      });
+      const current = await service.getProduct(created.value.id);
+      console.log(`[${name}] Current price:`, current?.price);
+
+      const [firstPrice] = service.pricing.history(created.value.id);
+      const original = await service.priceAt(
+        created.value.id,
+        firstPrice.effectiveFrom
+      );
+      console.log(`[${name}] Original price:`, original?.amount);
+    }
+
+    const page = await service.searchProducts({
+      text: "typescript guide",
+      filters: { kind: "physical", maxPrice: 50 },
+      sort: { by: "relevance" },
+      limit: 10,
+    });
+    console.log(`[${name}] Search:`, page.items, page.facets);
+
+    // Lote en CSV con encabezados propios: primero dry-run, después en serio
+    const batch = [
+      "Title,Price,category,description,tags,Weight (kg),metadata.dimensions.width,metadata.dimensions.height,metadata.dimensions.depth,metadata.fileSize,metadata.format",
+      'Programming TypeScript,34.5,physical_books,"Types, tooling and more",typescript|books,0.9,18,23,2,,',
+      "Effective TypeScript,21,digital_ebooks,62 specific ways,typescript|ebooks,,,,,4.2,epub",
+      "Broken book,cheap,physical_books,No dimensions,,heavy,,,,,",
+    ].join("\n");
+    const columns = {
+      Title: "name",
+      Price: "price",
+      "Weight (kg)": "metadata.weight",
+    };
+    const dryRun = await service.importProducts(Readable.from([batch]), {
+      format: "csv",
+      columns,
+      dryRun: true,
+    });
+    for (const { line, errors } of dryRun.errors) {
+      for (const error of errors) {
+        console.log(`[${name}] Line ${line}:`, error.message);
+      }
+    }
+    const imported = await service.importProducts(Readable.from([batch]), {
+      format: "csv",
+      columns,
+    });
+    console.log(`[${name}] Imported:`, imported.created, "created");
+
+    // Export y reimport: las filas con id existente se actualizan
+    const catalogFile = path.join(os.tmpdir(), `product-catalog-${name}.csv`);
+    const output = createWriteStream(catalogFile);
+    const exported = await service.exportProducts(output, "csv");
+    await new Promise((resolve) => output.end(resolve));
+    const reimported = await service.importProducts(
+      createReadStream(catalogFile),
+      { format: "csv", mode: "upsert" }
+    );
+    console.log(
+      `[${name}] Exported ${exported}, reimported:`,
+      reimported.updated,
+      "updated,",
+      reimported.failed,
+      "failed"
+    );
+  }
+}
+
+demonstrateProductService().catch((error) => {
+  console.error("Error during product demo:", error);
+});
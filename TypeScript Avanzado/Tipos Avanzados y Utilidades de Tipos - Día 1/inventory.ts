@@ -0,0 +1,321 @@
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import type { Product } from ".";
+import { categoryKind } from "./categories";
+
+// Cómo se cuenta el stock de un producto
+export type StockPolicy =
+  | { type: "tracked"; lowStockThreshold: number }
+  | { type: "unlimited" }
+  // Licencias digitales: un número fijo de puestos que se consumen al vender
+  | { type: "seats"; lowStockThreshold: number };
+
+export interface StockLevel {
+  location: string;
+  onHand: number;
+  reserved: number;
+}
+
+export interface Reservation {
+  id: string;
+  productId: string;
+  location: string;
+  quantity: number;
+  expiresAt: number;
+}
+
+export interface StockChangeEvent {
+  productId: string;
+  available: number;
+  inStock: boolean;
+}
+
+export interface LowStockEvent {
+  productId: string;
+  available: number;
+  threshold: number;
+}
+
+export class InventoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InventoryError";
+  }
+}
+
+export class InsufficientStockError extends InventoryError {
+  constructor(
+    readonly productId: string,
+    readonly requested: number,
+    readonly available: number
+  ) {
+    super(
+      `Insufficient stock for ${productId}: requested ${requested}, available ${available}`
+    );
+    this.name = "InsufficientStockError";
+  }
+}
+
+// Los puestos de una licencia no tienen ubicación física
+export const LICENCE_LOCATION = "licences";
+// Stock sembrado de un producto persistido, aún sin ubicación conocida
+export const UNASSIGNED_LOCATION = "unassigned";
+
+const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+const DEFAULT_RESERVATION_TTL_MS = 15 * 60 * 1000;
+
+// Emite "stockChange" cuando cambia inStock y "lowStock" al cruzar el umbral
+export class Inventory extends EventEmitter {
+  private policies = new Map<string, StockPolicy>();
+  // productId -> location -> niveles
+  private stock = new Map<string, Map<string, StockLevel>>();
+  private reservations = new Map<string, Reservation>();
+  private lastInStock = new Map<string, boolean>();
+  private lastLowStock = new Map<string, boolean>();
+
+  constructor(
+    private options: { now?: () => number; reservationTtlMs?: number } = {}
+  ) {
+    super();
+  }
+
+  // Los digitales son ilimitados salvo que se indique un número de puestos.
+  // inStock: siembra un producto persistido del que solo se conoce ese flag;
+  // con stock se parte de una unidad, el mínimo compatible
+  track(
+    product: Pick<Product, "id" | "category">,
+    options: {
+      seats?: number;
+      lowStockThreshold?: number;
+      inStock?: boolean;
+    } = {}
+  ) {
+    if (this.policies.has(product.id)) {
+      throw new InventoryError(`Product ${product.id} is already tracked`);
+    }
+    const lowStockThreshold =
+      options.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD;
+    let policy: StockPolicy = { type: "tracked", lowStockThreshold };
+
+    if (categoryKind(product.category) === "digital") {
+      policy =
+        options.seats === undefined && options.inStock !== false
+          ? { type: "unlimited" }
+          : { type: "seats", lowStockThreshold };
+    }
+
+    this.policies.set(product.id, policy);
+    if (policy.type === "seats" && options.seats) {
+      this.receive(product.id, LICENCE_LOCATION, options.seats);
+    } else if (policy.type === "tracked" && options.inStock) {
+      this.receive(product.id, UNASSIGNED_LOCATION, 1);
+    } else {
+      this.notify(product.id);
+    }
+  }
+
+  isTracked(productId: string): boolean {
+    return this.policies.has(productId);
+  }
+
+  // Entrada de mercadería (o de puestos) en una ubicación
+  receive(productId: string, location: string, quantity: number) {
+    const policy = this.policyOf(productId);
+    if (policy.type === "unlimited") return;
+    if (policy.type === "seats" && location !== LICENCE_LOCATION) {
+      throw new InventoryError(`Licence seats are not stored per location`);
+    }
+    this.assertQuantity(quantity);
+
+    const level = this.levelOf(productId, location);
+    level.onHand += quantity;
+    this.notify(productId);
+  }
+
+  levels(productId: string): StockLevel[] {
+    this.releaseExpired();
+    return [...(this.stock.get(productId)?.values() ?? [])].map((level) => ({
+      ...level,
+    }));
+  }
+
+  available(productId: string, location?: string): number {
+    this.releaseExpired();
+    if (this.policyOf(productId).type === "unlimited") return Infinity;
+
+    return this.levels(productId)
+      .filter((level) => location === undefined || level.location === location)
+      .reduce((total, level) => total + level.onHand - level.reserved, 0);
+  }
+
+  isInStock(productId: string): boolean {
+    return this.available(productId) > 0;
+  }
+
+  // Aparta unidades hasta que se confirmen, se liberen o venzan
+  reserve(
+    productId: string,
+    quantity: number,
+    options: { location?: string; ttlMs?: number } = {}
+  ): Reservation {
+    this.releaseExpired();
+    this.assertQuantity(quantity);
+    const policy = this.policyOf(productId);
+    const ttlMs =
+      options.ttlMs ??
+      this.options.reservationTtlMs ??
+      DEFAULT_RESERVATION_TTL_MS;
+
+    let location = options.location ?? "*";
+    if (policy.type !== "unlimited") {
+      // Sin ubicación pedida se usa la primera que alcance sola
+      const candidates = this.levels(productId).filter(
+        (level) =>
+          (options.location === undefined ||
+            level.location === options.location) &&
+          level.onHand - level.reserved >= quantity
+      );
+      if (candidates.length === 0) {
+        // Lo máximo que se puede reservar de una sola vez
+        const reservable = this.levels(productId)
+          .filter(
+            (level) =>
+              options.location === undefined ||
+              level.location === options.location
+          )
+          .map((level) => level.onHand - level.reserved);
+        throw new InsufficientStockError(
+          productId,
+          quantity,
+          Math.max(0, ...reservable)
+        );
+      }
+      location = candidates[0].location;
+      this.levelOf(productId, location).reserved += quantity;
+    }
+
+    const reservation: Reservation = {
+      id: randomUUID(),
+      productId,
+      location,
+      quantity,
+      expiresAt: this.now() + ttlMs,
+    };
+    this.reservations.set(reservation.id, reservation);
+    this.notify(productId);
+    return { ...reservation };
+  }
+
+  // Venta confirmada: las unidades salen del stock
+  commit(reservationId: string) {
+    const reservation = this.take(reservationId);
+    if (this.policyOf(reservation.productId).type === "unlimited") return;
+
+    const level = this.levelOf(reservation.productId, reservation.location);
+    level.reserved -= reservation.quantity;
+    level.onHand -= reservation.quantity;
+    this.notify(reservation.productId);
+  }
+
+  // Cancelación: las unidades vuelven a estar disponibles
+  release(reservationId: string) {
+    this.unreserve(this.take(reservationId));
+  }
+
+  // Libera las reservas vencidas; devuelve cuántas
+  releaseExpired(): number {
+    const now = this.now();
+    const expired = [...this.reservations.values()].filter(
+      (reservation) => reservation.expiresAt <= now
+    );
+    for (const reservation of expired) {
+      this.reservations.delete(reservation.id);
+      this.unreserve(reservation);
+    }
+    return expired.length;
+  }
+
+  private unreserve(reservation: Reservation) {
+    if (this.policyOf(reservation.productId).type === "unlimited") return;
+
+    this.levelOf(reservation.productId, reservation.location).reserved -=
+      reservation.quantity;
+    this.notify(reservation.productId);
+  }
+
+  private take(reservationId: string): Reservation {
+    this.releaseExpired();
+    const reservation = this.reservations.get(reservationId);
+    if (!reservation) {
+      throw new InventoryError(
+        `Reservation ${reservationId} does not exist or has expired`
+      );
+    }
+    this.reservations.delete(reservationId);
+    return reservation;
+  }
+
+  private notify(productId: string) {
+    const policy = this.policyOf(productId);
+    const available =
+      policy.type === "unlimited"
+        ? Infinity
+        : [...(this.stock.get(productId)?.values() ?? [])].reduce(
+            (total, level) => total + level.onHand - level.reserved,
+            0
+          );
+    const inStock = available > 0;
+
+    if (this.lastInStock.get(productId) !== inStock) {
+      this.lastInStock.set(productId, inStock);
+      this.emit("stockChange", {
+        productId,
+        available,
+        inStock,
+      } satisfies StockChangeEvent);
+    }
+    if (policy.type === "unlimited") return;
+
+    // Solo al cruzar el umbral hacia abajo, no en cada movimiento
+    const low = available <= policy.lowStockThreshold;
+    const wasLow = this.lastLowStock.get(productId);
+    this.lastLowStock.set(productId, low);
+    if (low && wasLow === false) {
+      this.emit("lowStock", {
+        productId,
+        available,
+        threshold: policy.lowStockThreshold,
+      } satisfies LowStockEvent);
+    }
+  }
+
+  private policyOf(productId: string): StockPolicy {
+    const policy = this.policies.get(productId);
+    if (!policy) {
+      throw new InventoryError(`Product ${productId} is not tracked`);
+    }
+    return policy;
+  }
+
+  private levelOf(productId: string, location: string): StockLevel {
+    const locations = this.stock.get(productId) ?? new Map();
+    this.stock.set(productId, locations);
+
+    let level = locations.get(location);
+    if (!level) {
+      level = { location, onHand: 0, reserved: 0 };
+      locations.set(location, level);
+    }
+    return level;
+  }
+
+  private assertQuantity(quantity: number) {
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new InventoryError(`Quantity must be a positive integer`);
+    }
+  }
+
+  private now(): number {
+    return this.options.now?.() ?? Date.now();
+  }
+}
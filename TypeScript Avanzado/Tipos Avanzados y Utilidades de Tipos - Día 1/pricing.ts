@@ -0,0 +1,349 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+
+// Código ISO 4217, p.ej. "USD" o "EUR"
+export type Currency = string;
+
+export interface PriceEntry {
+  productId: string;
+  kind: "list" | "sale";
+  amount: number;
+  currency: Currency;
+  effectiveFrom: Date;
+  // Sin fecha de fin sigue vigente indefinidamente
+  effectiveTo?: Date;
+  label?: string;
+}
+
+export interface ResolvedPrice {
+  amount: number;
+  currency: Currency;
+  source: "list" | "sale";
+  entry: PriceEntry;
+}
+
+export class PricingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PricingError";
+  }
+}
+
+// Dónde se persiste el historial; PriceBook lo carga una vez y guarda la
+// línea de tiempo completa (productId -> entradas) de lo que cambió
+export interface PriceStore {
+  load(): Promise<PriceEntry[]>;
+  save(timelines: Map<string, PriceEntry[]>): Promise<void>;
+}
+
+// En JSON las fechas viajan como texto ISO
+type StoredPriceEntry = Omit<PriceEntry, "effectiveFrom" | "effectiveTo"> & {
+  effectiveFrom: string;
+  effectiveTo?: string;
+};
+
+// Todo el historial en un archivo JSON, reemplazado de forma atómica
+// (tmp + rename) como el catálogo de JsonFileProductRepository
+export class JsonFilePriceStore implements PriceStore {
+  // Las escrituras se encadenan para que no se pisen entre sí
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private file: string) {}
+
+  async load(): Promise<PriceEntry[]> {
+    let stored: StoredPriceEntry[] = [];
+    try {
+      stored = JSON.parse(await fs.readFile(this.file, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+
+    return stored.map((entry) => ({
+      ...entry,
+      effectiveFrom: new Date(entry.effectiveFrom),
+      effectiveTo:
+        entry.effectiveTo === undefined
+          ? undefined
+          : new Date(entry.effectiveTo),
+    }));
+  }
+
+  save(timelines: Map<string, PriceEntry[]>): Promise<void> {
+    const write = this.writes.then(async () => {
+      const others = (await this.load()).filter(
+        (entry) => !timelines.has(entry.productId)
+      );
+      await this.persist([...others, ...[...timelines.values()].flat()]);
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private async persist(entries: PriceEntry[]) {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+
+    const tmpFile = `${this.file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmpFile, JSON.stringify(entries, null, 2), "utf8");
+    await fs.rename(tmpFile, this.file);
+  }
+}
+
+function covers(entry: PriceEntry, at: Date): boolean {
+  return (
+    entry.effectiveFrom.getTime() <= at.getTime() &&
+    (entry.effectiveTo === undefined ||
+      at.getTime() < entry.effectiveTo.getTime())
+  );
+}
+
+function overlaps(a: PriceEntry, b: PriceEntry): boolean {
+  const end = (entry: PriceEntry) => entry.effectiveTo?.getTime() ?? Infinity;
+  return (
+    a.effectiveFrom.getTime() < end(b) && b.effectiveFrom.getTime() < end(a)
+  );
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Línea de tiempo de precios por producto y moneda. El historial solo crece:
+// un cambio de precio cierra la entrada vigente en lugar de sobrescribirla,
+// así priceAt() responde igual hoy que dentro de un año. Con un store el
+// historial sobrevive a un reinicio: hay que esperar ready() antes de usarlo
+export class PriceBook {
+  private entries = new Map<string, PriceEntry[]>();
+  private loaded: boolean;
+  private loading?: Promise<void>;
+  private lastWrite: Promise<void> = Promise.resolve();
+  // Productos con cambios sin guardar mientras corre un batch()
+  private deferred?: Set<string>;
+
+  constructor(
+    private options: {
+      defaultCurrency?: Currency;
+      now?: () => Date;
+      store?: PriceStore;
+    } = {}
+  ) {
+    this.loaded = !options.store;
+  }
+
+  get defaultCurrency(): Currency {
+    return this.options.defaultCurrency ?? "USD";
+  }
+
+  // Carga una sola vez lo que ya estaba persistido
+  ready(): Promise<void> {
+    this.loading ??= (async () => {
+      for (const entry of (await this.options.store?.load()) ?? []) {
+        const entries = this.entries.get(entry.productId) ?? [];
+        entries.push(entry);
+        this.entries.set(entry.productId, entries);
+      }
+      this.loaded = true;
+    })();
+    return this.loading;
+  }
+
+  // Resuelve cuando el último cambio llegó al store (o falla con su error)
+  flush(): Promise<void> {
+    return this.lastWrite;
+  }
+
+  // Los cambios hechos durante work se guardan juntos al terminar, en un
+  // solo save; un import no reescribe el historial en cada fila
+  async batch<T>(work: () => Promise<T>): Promise<T> {
+    if (this.deferred) return work();
+
+    const deferred = new Set<string>();
+    this.deferred = deferred;
+    try {
+      return await work();
+    } finally {
+      this.deferred = undefined;
+      this.persist(...deferred);
+      await this.flush();
+    }
+  }
+
+  // Nuevo precio de lista desde effectiveFrom (por defecto ahora)
+  setListPrice(
+    productId: string,
+    amount: number,
+    options: { currency?: Currency; effectiveFrom?: Date } = {}
+  ): PriceEntry {
+    this.assertAmount(amount);
+    const currency = options.currency ?? this.defaultCurrency;
+    const effectiveFrom = options.effectiveFrom ?? this.now();
+    const list = this.timeline(productId, currency, "list");
+    const last = list[list.length - 1];
+
+    // Con el mismo instante la entrada anterior queda con duración cero
+    if (last && effectiveFrom.getTime() < last.effectiveFrom.getTime()) {
+      throw new PricingError(
+        `List price for ${productId} cannot start before ${last.effectiveFrom.toISOString()}`
+      );
+    }
+    if (last) last.effectiveTo = effectiveFrom;
+
+    return this.append({
+      productId,
+      kind: "list",
+      amount,
+      currency,
+      effectiveFrom,
+    });
+  }
+
+  // Oferta con fecha de inicio y fin: se activa y vence sola
+  scheduleSale(
+    productId: string,
+    sale: {
+      from: Date;
+      to: Date;
+      label?: string;
+      currency?: Currency;
+    } & ({ amount: number } | { percentOff: number })
+  ): PriceEntry {
+    const currency = sale.currency ?? this.defaultCurrency;
+    if (sale.to.getTime() <= sale.from.getTime()) {
+      throw new PricingError(`Sale must end after it starts`);
+    }
+
+    let amount: number;
+    if ("amount" in sale) {
+      amount = sale.amount;
+    } else {
+      // El descuento se calcula sobre el precio de lista al empezar la oferta
+      const base = this.resolve(productId, sale.from, currency, "list");
+      if (!base) {
+        throw new PricingError(
+          `No list price for ${productId} in ${currency} at ${sale.from.toISOString()}`
+        );
+      }
+      amount = roundAmount(base.amount * (1 - sale.percentOff / 100));
+    }
+    this.assertAmount(amount);
+
+    const entry: PriceEntry = {
+      productId,
+      kind: "sale",
+      amount,
+      currency,
+      effectiveFrom: sale.from,
+      effectiveTo: sale.to,
+      label: sale.label,
+    };
+    const clash = this.timeline(productId, currency, "sale").find((other) =>
+      overlaps(other, entry)
+    );
+    if (clash) {
+      throw new PricingError(
+        `Sale overlaps ${clash.label ?? "another sale"} for ${productId}`
+      );
+    }
+    return this.append(entry);
+  }
+
+  // Una oferta vigente gana sobre el precio de lista
+  priceAt(
+    productId: string,
+    at: Date,
+    currency: Currency = this.defaultCurrency
+  ): ResolvedPrice | undefined {
+    return (
+      this.resolve(productId, at, currency, "sale") ??
+      this.resolve(productId, at, currency, "list")
+    );
+  }
+
+  currentPrice(
+    productId: string,
+    currency?: Currency
+  ): ResolvedPrice | undefined {
+    return this.priceAt(productId, this.now(), currency);
+  }
+
+  // Todas las entradas, ordenadas por inicio
+  history(productId: string, currency?: Currency): PriceEntry[] {
+    return this.entriesOf(productId)
+      .filter((entry) => currency === undefined || entry.currency === currency)
+      .map((entry) => ({ ...entry }))
+      .sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime());
+  }
+
+  private resolve(
+    productId: string,
+    at: Date,
+    currency: Currency,
+    kind: PriceEntry["kind"]
+  ): ResolvedPrice | undefined {
+    const entry = this.timeline(productId, currency, kind).find((candidate) =>
+      covers(candidate, at)
+    );
+    return entry && { amount: entry.amount, currency, source: kind, entry };
+  }
+
+  private timeline(
+    productId: string,
+    currency: Currency,
+    kind: PriceEntry["kind"]
+  ): PriceEntry[] {
+    return this.entriesOf(productId).filter(
+      (entry) => entry.currency === currency && entry.kind === kind
+    );
+  }
+
+  private entriesOf(productId: string): PriceEntry[] {
+    // Leer o escribir antes de cargar daría precios sin su historial
+    if (!this.loaded) {
+      throw new PricingError(
+        `Price history is not loaded; await ready() first`
+      );
+    }
+    return this.entries.get(productId) ?? [];
+  }
+
+  private append(entry: PriceEntry): PriceEntry {
+    const entries = this.entriesOf(entry.productId);
+    entries.push(entry);
+    this.entries.set(entry.productId, entries);
+    this.persist(entry.productId);
+    return { ...entry };
+  }
+
+  // Guarda la línea de tiempo completa: setListPrice también cierra la
+  // entrada anterior
+  private persist(...productIds: string[]) {
+    const { store } = this.options;
+    if (!store || productIds.length === 0) return;
+    if (this.deferred) {
+      for (const productId of productIds) this.deferred.add(productId);
+      return;
+    }
+
+    const timelines = new Map(
+      productIds.map((productId) => [
+        productId,
+        this.entriesOf(productId).map((entry) => ({ ...entry })),
+      ])
+    );
+    const write = this.lastWrite
+      .catch(() => undefined)
+      .then(() => store.save(timelines));
+    // El error lo recibe quien espere flush(), no queda como rechazo suelto
+    write.catch(() => undefined);
+    this.lastWrite = write;
+  }
+
+  private assertAmount(amount: number) {
+    if (!Number.isFinite(amount) || amount < 0) {
+      throw new PricingError(`Price must be a non-negative number`);
+    }
+  }
+
+  private now(): Date {
+    return this.options.now?.() ?? new Date();
+  }
+}
@@ -0,0 +1,476 @@
+import { once } from "events";
+import { StringDecoder } from "string_decoder";
+import type { Product, ProductError, UpdateProductRequest } from ".";
+import { categoryKind, categoryRegistry, MetadataSchema } from "./categories";
+import { UNSAFE_KEYS } from "./deepMerge";
+import {
+  FieldError,
+  fieldError,
+  Result,
+  validateCreateProduct,
+} from "./validation";
+
+export type ProductFileFormat = "csv" | "ndjson";
+
+// Lo que el import necesita del service; así no depende de su implementación
+export interface ProductImportTarget {
+  getProduct(id: string): Promise<Product | undefined>;
+  createProduct(
+    data: unknown,
+    options?: { id?: string }
+  ): Promise<Result<Product, ProductError>>;
+  updateProduct(
+    id: string,
+    updates: UpdateProductRequest
+  ): Promise<Result<Product, ProductError>>;
+}
+
+export interface ImportOptions {
+  format: ProductFileFormat;
+  // create: un id existente es un error. upsert: se actualiza
+  mode?: "create" | "upsert";
+  // Valida y reporta sin escribir nada
+  dryRun?: boolean;
+  // Encabezado del CSV -> ruta del campo, p.ej. { "Weight (kg)": "metadata.weight" }
+  columns?: Record<string, string>;
+}
+
+export interface ImportRowError {
+  // Número de línea donde empieza la fila en el archivo
+  line: number;
+  id?: string;
+  errors: FieldError[];
+}
+
+export interface ImportReport {
+  mode: "create" | "upsert";
+  dryRun: boolean;
+  processed: number;
+  created: number;
+  updated: number;
+  failed: number;
+  errors: ImportRowError[];
+}
+
+// Los tags viajan en una sola columna del CSV; un "|" o "\" dentro de un
+// tag se escapa con "\" para que el export se pueda reimportar tal cual
+const TAG_SEPARATOR = "|";
+
+function joinTags(tags: string[]): string {
+  return tags
+    .map((tag) => tag.replace(/[\\|]/g, "\\$&"))
+    .join(TAG_SEPARATOR);
+}
+
+function splitTags(cell: string): string[] {
+  const tags: string[] = [];
+  let current = "";
+  for (let i = 0; i < cell.length; i++) {
+    if (cell[i] === "\\" && i + 1 < cell.length) {
+      current += cell[++i];
+    } else if (cell[i] === TAG_SEPARATOR) {
+      tags.push(current.trim());
+      current = "";
+    } else {
+      current += cell[i];
+    }
+  }
+  tags.push(current.trim());
+  return tags;
+}
+
+const BASE_COLUMNS = [
+  "id",
+  "name",
+  "price",
+  "category",
+  "description",
+  "inStock",
+  "tags",
+];
+
+// Rutas hoja del schema, p.ej. ["dimensions.width", "number"]
+function schemaLeaves(schema: MetadataSchema, prefix = ""): [string, string][] {
+  return Object.entries(schema).flatMap(([field, type]) =>
+    typeof type === "object"
+      ? schemaLeaves(type, `${prefix}${field}.`)
+      : [[`${prefix}${field}`, type] as [string, string]]
+  );
+}
+
+// Columnas metadata.* de todas las categorías registradas, sin repetir
+function metadataColumns(): string[] {
+  const columns = categoryRegistry
+    .list()
+    .flatMap((category) =>
+      schemaLeaves(categoryRegistry.metadataSchema(category.id) ?? {})
+    )
+    .map(([field]) => `metadata.${field}`);
+  return [...new Set(columns)];
+}
+
+// Decodifica los chunks respetando los caracteres multibyte partidos
+async function* textChunks(
+  input: AsyncIterable<string | Buffer>
+): AsyncGenerator<string> {
+  const decoder = new StringDecoder("utf8");
+  for await (const chunk of input) {
+    yield typeof chunk === "string" ? chunk : decoder.write(chunk);
+  }
+  const rest = decoder.end();
+  if (rest) yield rest;
+}
+
+interface RawRecord {
+  line: number;
+  value: unknown;
+}
+
+async function* ndjsonRecords(
+  input: AsyncIterable<string | Buffer>
+): AsyncGenerator<RawRecord> {
+  let buffer = "";
+  let line = 0;
+  const parse = (text: string): RawRecord | undefined => {
+    line++;
+    if (text.trim() === "") return undefined;
+    try {
+      return { line, value: JSON.parse(text) };
+    } catch {
+      // El error de sintaxis se reporta en la fila, no corta el import
+      return { line, value: new SyntaxError(`Invalid JSON on line ${line}`) };
+    }
+  };
+
+  for await (const chunk of textChunks(input)) {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const record = parse(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      if (record) yield record;
+    }
+  }
+  const last = parse(buffer);
+  if (last) yield last;
+}
+
+// Parser RFC 4180 incremental: comillas dobles, "" escapado y saltos de
+// línea dentro de un campo entre comillas
+async function* csvRows(
+  input: AsyncIterable<string | Buffer>
+): AsyncGenerator<{ line: number; cells: string[] }> {
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let pendingQuote = false;
+  let line = 1;
+  let rowLine = 1;
+  let first = true;
+
+  const endRow = () => {
+    cells.push(cell);
+    const row = { line: rowLine, cells };
+    cells = [];
+    cell = "";
+    rowLine = line;
+    return row;
+  };
+
+  for await (const chunk of textChunks(input)) {
+    for (const char of chunk) {
+      if (first) {
+        first = false;
+        if (char === "\uFEFF") continue;
+      }
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          cell += char;
+          continue;
+        }
+        quoted = false;
+      }
+
+      if (quoted) {
+        if (char === '"') {
+          pendingQuote = true;
+        } else {
+          if (char === "\n") line++;
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ",") {
+        cells.push(cell);
+        cell = "";
+      } else if (char === "\n") {
+        line++;
+        const row = endRow();
+        if (row.cells.length > 1 || row.cells[0] !== "") yield row;
+      } else if (char !== "\r") {
+        cell += char;
+      }
+    }
+  }
+  if (cell !== "" || cells.length > 0) yield endRow();
+}
+
+// Asigna un valor siguiendo una ruta con puntos, creando los objetos intermedios
+function setPath(
+  target: Record<string, unknown>,
+  path: string,
+  value: unknown
+) {
+  const keys = path.split(".");
+  if (keys.some((key) => UNSAFE_KEYS.has(key))) return;
+
+  let current = target;
+  for (const key of keys.slice(0, -1)) {
+    if (typeof current[key] !== "object" || current[key] === null) {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+  current[keys[keys.length - 1]] = value;
+}
+
+// Los números y booleanos que no se pueden convertir quedan como texto para
+// que la validación los reporte con el valor original
+function coerce(cell: string, type: string | undefined): unknown {
+  if (type === "number") {
+    const number = Number(cell);
+    return cell.trim() === "" || Number.isNaN(number) ? cell : number;
+  }
+  if (type === "boolean") {
+    if (cell === "true") return true;
+    if (cell === "false") return false;
+  }
+  return cell;
+}
+
+function fieldTypeOf(product: Record<string, unknown>, field: string) {
+  if (field === "price") return "number";
+  if (field === "inStock") return "boolean";
+  if (!field.startsWith("metadata.")) return undefined;
+
+  const { category } = product;
+  if (typeof category !== "string" || !categoryRegistry.has(category)) {
+    return undefined;
+  }
+  const schema = categoryRegistry.metadataSchema(category) ?? {};
+  return new Map(schemaLeaves(schema)).get(field.slice("metadata.".length));
+}
+
+// Fila plana del CSV -> objeto con la forma de PhysicalProduct / DigitalProduct.
+// Las celdas vacías se omiten: un libro deja vacías las columnas de archivo
+function rowToProduct(
+  header: string[],
+  cells: string[]
+): Record<string, unknown> {
+  const product: Record<string, unknown> = {};
+  const entries = header.map((field, index) => [field, cells[index] ?? ""]);
+
+  // La categoría primero: de ella depende el tipo de cada columna de metadata
+  const category = entries.find(([field]) => field === "category");
+  if (category) product.category = category[1];
+
+  for (const [field, cell] of entries) {
+    if (cell === "" || field === "category") continue;
+    if (field === "tags") {
+      product.tags = splitTags(cell);
+    } else {
+      setPath(product, field, coerce(cell, fieldTypeOf(product, field)));
+    }
+  }
+  // tags vacío es una lista vacía, no un campo faltante
+  if (header.includes("tags") && product.tags === undefined) product.tags = [];
+  return product;
+}
+
+async function* csvRecords(
+  input: AsyncIterable<string | Buffer>,
+  columns: Record<string, string> = {}
+): AsyncGenerator<RawRecord> {
+  let header: string[] | undefined;
+  for await (const { line, cells } of csvRows(input)) {
+    if (!header) {
+      header = cells.map((name) => columns[name.trim()] ?? name.trim());
+      continue;
+    }
+    yield { line, value: rowToProduct(header, cells) };
+  }
+}
+
+function recordsOf(
+  input: AsyncIterable<string | Buffer>,
+  options: ImportOptions
+): AsyncGenerator<RawRecord> {
+  return options.format === "csv"
+    ? csvRecords(input, options.columns)
+    : ndjsonRecords(input);
+}
+
+function errorsOf(error: ProductError): FieldError[] {
+  switch (error.code) {
+    case "VALIDATION_FAILED":
+      return error.errors;
+    case "NOT_FOUND":
+      return [fieldError("$.id", "existing product", error.id)];
+    case "CONFLICT":
+      return [
+        {
+          path: `$.${error.path}`,
+          expected: "compatible value",
+          received: undefined,
+          message: error.message,
+        },
+      ];
+  }
+}
+
+// Importa fila por fila sin cargar el archivo completo en memoria. Una fila
+// inválida se reporta y el resto sigue
+export async function importProducts(
+  target: ProductImportTarget,
+  input: AsyncIterable<string | Buffer>,
+  options: ImportOptions
+): Promise<ImportReport> {
+  const mode = options.mode ?? "create";
+  const dryRun = options.dryRun ?? false;
+  const report: ImportReport = {
+    mode,
+    dryRun,
+    processed: 0,
+    created: 0,
+    updated: 0,
+    failed: 0,
+    errors: [],
+  };
+  const seen = new Set<string>();
+  const fail = (line: number, errors: FieldError[], id?: string) => {
+    report.failed++;
+    report.errors.push({ line, id, errors });
+  };
+
+  for await (const { line, value } of recordsOf(input, options)) {
+    report.processed++;
+    if (value instanceof SyntaxError) {
+      fail(line, [fieldError("$", "JSON object", value.message)]);
+      continue;
+    }
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      fail(line, [fieldError("$", "object", value)]);
+      continue;
+    }
+
+    const { id, ...fields } = value as Record<string, unknown>;
+    if (id !== undefined && typeof id !== "string") {
+      fail(line, [fieldError("$.id", "string", id)]);
+      continue;
+    }
+    if (id !== undefined && seen.has(id)) {
+      fail(line, [fieldError("$.id", "id unique within the file", id)], id);
+      continue;
+    }
+    if (id !== undefined) seen.add(id);
+
+    const validation = validateCreateProduct(fields);
+    if (!validation.ok) {
+      fail(line, validation.error, id);
+      continue;
+    }
+
+    const existing = id === undefined ? undefined : await target.getProduct(id);
+    if (existing && mode === "create") {
+      fail(line, [fieldError("$.id", "new product id", id)], id);
+      continue;
+    }
+    // Mismo chequeo que updateProduct, para que el dry-run no prometa de más
+    const { category } = validation.value;
+    if (
+      existing &&
+      categoryKind(existing.category) !== categoryKind(category)
+    ) {
+      fail(
+        line,
+        [
+          {
+            path: "$.category",
+            expected: `${categoryKind(existing.category)} category`,
+            received: category,
+            message: `Cannot change a ${categoryKind(existing.category)} product into a ${categoryKind(category)} product`,
+          },
+        ],
+        id
+      );
+      continue;
+    }
+    if (dryRun) {
+      if (existing) report.updated++;
+      else report.created++;
+      continue;
+    }
+
+    const result = existing
+      ? await target.updateProduct(existing.id, validation.value)
+      : await target.createProduct(validation.value, { id });
+    if (!result.ok) {
+      fail(line, errorsOf(result.error), id);
+    } else if (existing) {
+      report.updated++;
+    } else {
+      report.created++;
+    }
+  }
+  return report;
+}
+
+function csvCell(value: unknown): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function valueAt(product: Product, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (current, key) => (current as Record<string, unknown>)?.[key],
+      product
+    );
+}
+
+function productToCsv(product: Product, columns: string[]): string {
+  return columns
+    .map((column) =>
+      column === "tags"
+        ? csvCell(joinTags(product.tags))
+        : csvCell(valueAt(product, column))
+    )
+    .join(",");
+}
+
+// Escribe respetando el backpressure del stream de destino
+export async function exportProducts(
+  products: Iterable<Product> | AsyncIterable<Product>,
+  output: NodeJS.WritableStream,
+  format: ProductFileFormat
+): Promise<number> {
+  const write = async (text: string) => {
+    if (!output.write(text)) await once(output, "drain");
+  };
+
+  const columns = [...BASE_COLUMNS, ...metadataColumns()];
+  if (format === "csv") await write(`${columns.join(",")}\n`);
+
+  let count = 0;
+  for await (const product of products) {
+    await write(
+      format === "csv"
+        ? `${productToCsv(product, columns)}\n`
+        : `${JSON.stringify(product)}\n`
+    );
+    count++;
+  }
+  return count;
+}
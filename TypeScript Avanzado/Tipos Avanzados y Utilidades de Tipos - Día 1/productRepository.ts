@@ -0,0 +1,141 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import type { Product } from ".";
+
+// Contrato de persistencia que usa ProductService
+export interface ProductRepository {
+  save(product: Product): Promise<void>;
+  // Varios productos en una sola escritura, p.ej. al importar un catálogo
+  saveMany(products: Product[]): Promise<void>;
+  findById(id: string): Promise<Product | undefined>;
+  findAll(): Promise<Product[]>;
+  delete(id: string): Promise<boolean>;
+  search(query: string): Promise<Product[]>;
+}
+
+// Búsqueda simple sin índice: el texto aparece en nombre, descripción o tags
+function matchesQuery(product: Product, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (needle === "") return true;
+
+  return [product.name, product.description, ...product.tags].some((text) =>
+    text.toLowerCase().includes(needle)
+  );
+}
+
+// Copia profunda para que nadie modifique el estado guardado por referencia
+function clone(product: Product): Product {
+  return structuredClone(product);
+}
+
+export class InMemoryProductRepository implements ProductRepository {
+  private products = new Map<string, Product>();
+
+  async save(product: Product): Promise<void> {
+    this.products.set(product.id, clone(product));
+  }
+
+  async saveMany(products: Product[]): Promise<void> {
+    for (const product of products) await this.save(product);
+  }
+
+  async findById(id: string): Promise<Product | undefined> {
+    const product = this.products.get(id);
+    return product && clone(product);
+  }
+
+  async findAll(): Promise<Product[]> {
+    return [...this.products.values()].map(clone);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.products.delete(id);
+  }
+
+  async search(query: string): Promise<Product[]> {
+    return (await this.findAll()).filter((product) =>
+      matchesQuery(product, query)
+    );
+  }
+}
+
+// Todo el catálogo en un archivo JSON; cada escritura reemplaza el archivo
+// de forma atómica (tmp + rename), así nunca queda a medio escribir
+export class JsonFileProductRepository implements ProductRepository {
+  private products?: Map<string, Product>;
+  // Las escrituras se encadenan para que no se pisen entre sí
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private file: string) {}
+
+  async save(product: Product): Promise<void> {
+    await this.saveMany([product]);
+  }
+
+  async saveMany(products: Product[]): Promise<void> {
+    await this.mutate((stored) => {
+      for (const product of products) stored.set(product.id, clone(product));
+    });
+  }
+
+  async findById(id: string): Promise<Product | undefined> {
+    const product = (await this.load()).get(id);
+    return product && clone(product);
+  }
+
+  async findAll(): Promise<Product[]> {
+    return [...(await this.load()).values()].map(clone);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    let deleted = false;
+    await this.mutate((products) => {
+      deleted = products.delete(id);
+    });
+    return deleted;
+  }
+
+  async search(query: string): Promise<Product[]> {
+    return (await this.findAll()).filter((product) =>
+      matchesQuery(product, query)
+    );
+  }
+
+  private async load(): Promise<Map<string, Product>> {
+    if (this.products) return this.products;
+
+    let products: Product[] = [];
+    try {
+      products = JSON.parse(await fs.readFile(this.file, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+
+    this.products ??= new Map(products.map((product) => [product.id, product]));
+    return this.products;
+  }
+
+  private mutate(change: (products: Map<string, Product>) => void) {
+    const write = this.writes.then(async () => {
+      // Se aplica sobre una copia: si falla el disco la memoria no cambia
+      const products = new Map(await this.load());
+      change(products);
+      await this.persist(products);
+      this.products = products;
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private async persist(products: Map<string, Product>) {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+
+    const tmpFile = `${this.file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(
+      tmpFile,
+      JSON.stringify([...products.values()], null, 2),
+      "utf8"
+    );
+    await fs.rename(tmpFile, this.file);
+  }
+}
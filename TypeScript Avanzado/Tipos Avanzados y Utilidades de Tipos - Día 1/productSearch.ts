@@ -0,0 +1,313 @@
+import type { Product, ProductSearchResult } from ".";
+import type { ProductRepository } from "./productRepository";
+
+type SearchField = "name" | "tags" | "description";
+
+// Un match en el nombre pesa más que uno en la descripción
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  tags: 2,
+  description: 1,
+};
+
+export type ProductSortField = "relevance" | "price" | "name";
+
+export interface ProductSearchQuery {
+  text?: string;
+  filters?: {
+    minPrice?: number;
+    maxPrice?: number;
+    inStock?: boolean;
+    kind?: "physical" | "digital";
+    category?: Product["category"];
+    tags?: string[];
+  };
+  sort?: { by: ProductSortField; direction?: "asc" | "desc" };
+  limit?: number;
+  // Valor opaco devuelto como nextCursor en la página anterior
+  cursor?: string;
+}
+
+export interface ProductSearchHit extends ProductSearchResult {
+  score: number;
+}
+
+export interface ProductSearchPage {
+  items: ProductSearchHit[];
+  // Total de resultados que cumplen texto y filtros, sin paginar
+  total: number;
+  facets: {
+    categories: Record<string, number>;
+    tags: Record<string, number>;
+  };
+  nextCursor?: string;
+}
+
+const DEFAULT_LIMIT = 20;
+
+// Minúsculas y sin acentos: "Guía" y "guia" son el mismo término
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 0);
+}
+
+interface Hit {
+  product: Product;
+  // Resuelto una vez por búsqueda: filtro, orden e item usan el mismo valor
+  price: number;
+  score: number;
+}
+
+// Cursor de keyset: valor de orden + id del último item entregado
+interface CursorKey {
+  value: string | number;
+  id: string;
+}
+
+function encodeCursor(key: CursorKey): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): CursorKey {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof key?.id === "string") return key;
+  } catch {
+    // Se reporta abajo con el mismo mensaje
+  }
+  throw new Error(`Invalid search cursor: ${cursor}`);
+}
+
+// Precio con el que se filtra, ordena y muestra; por defecto el guardado
+export type PriceResolver = (product: Product) => number;
+
+export class ProductSearchIndex {
+  // término -> id del producto -> peso acumulado de las apariciones
+  private postings = new Map<string, Map<string, number>>();
+  private documents = new Map<string, Product>();
+  private termsByProduct = new Map<string, Set<string>>();
+
+  constructor(private priceOf: PriceResolver = (product) => product.price) {}
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  add(product: Product) {
+    this.remove(product.id);
+
+    const weights = new Map<string, number>();
+    const fields: [SearchField, string][] = [
+      ["name", product.name],
+      ["description", product.description],
+      ...product.tags.map((tag): [SearchField, string] => ["tags", tag]),
+    ];
+    for (const [field, text] of fields) {
+      for (const term of tokenize(text)) {
+        weights.set(term, (weights.get(term) ?? 0) + FIELD_WEIGHTS[field]);
+      }
+    }
+
+    for (const [term, weight] of weights) {
+      const posting = this.postings.get(term) ?? new Map<string, number>();
+      posting.set(product.id, weight);
+      this.postings.set(term, posting);
+    }
+    this.documents.set(product.id, structuredClone(product));
+    this.termsByProduct.set(product.id, new Set(weights.keys()));
+  }
+
+  remove(id: string) {
+    for (const term of this.termsByProduct.get(id) ?? []) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) this.postings.delete(term);
+    }
+    this.termsByProduct.delete(id);
+    this.documents.delete(id);
+  }
+
+  search(query: ProductSearchQuery = {}): ProductSearchPage {
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    // Un límite de 0 devolvería páginas vacías con cursor para siempre
+    if (!(limit > 0)) throw new Error(`Invalid search limit: ${limit}`);
+
+    const terms = tokenize(query.text ?? "");
+    const scores = terms.length > 0 ? this.score(terms) : undefined;
+
+    const hits: Hit[] = [...this.documents.values()]
+      .filter((product) => !scores || scores.has(product.id))
+      .map((product) => ({
+        product,
+        price: this.priceOf(product),
+        score: scores?.get(product.id) ?? 0,
+      }))
+      .filter((hit) => this.passesFilters(hit, query.filters));
+    const matches = hits.map((hit) => hit.product);
+
+    const by = query.sort?.by ?? (scores ? "relevance" : "name");
+    // Por relevancia lo natural es de mayor a menor
+    const direction =
+      query.sort?.direction ?? (by === "relevance" ? "desc" : "asc");
+    const sign = direction === "asc" ? 1 : -1;
+    const sortValues: Record<ProductSortField, (hit: Hit) => string | number> =
+      {
+        relevance: (hit) => hit.score,
+        price: (hit) => hit.price,
+        name: (hit) => hit.product.name.toLowerCase(),
+      };
+
+    // El id desempata para que el orden (y el cursor) sea estable
+    const compare = (a: CursorKey, b: CursorKey) => {
+      if (a.value < b.value) return -sign;
+      if (a.value > b.value) return sign;
+      return a.id.localeCompare(b.id);
+    };
+    const keyOf = (hit: Hit): CursorKey => ({
+      value: sortValues[by](hit),
+      id: hit.product.id,
+    });
+    hits.sort((a, b) => compare(keyOf(a), keyOf(b)));
+
+    const after = query.cursor ? decodeCursor(query.cursor) : undefined;
+    const remaining = after
+      ? hits.filter((hit) => compare(keyOf(hit), after) > 0)
+      : hits;
+    const page = remaining.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      items: page.map(({ product, price, score }) => ({
+        id: product.id,
+        name: product.name,
+        price,
+        category: product.category,
+        score,
+      })),
+      total: hits.length,
+      facets: this.facets(matches),
+      nextCursor:
+        remaining.length > limit && last
+          ? encodeCursor(keyOf(last))
+          : undefined,
+    };
+  }
+
+  // TF ponderado por campo * IDF; suma sobre los términos de la consulta
+  private score(terms: string[]): Map<string, number> {
+    const scores = new Map<string, number>();
+    const total = this.documents.size;
+
+    for (const term of new Set(terms)) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + total / posting.size);
+      for (const [id, weight] of posting) {
+        scores.set(id, (scores.get(id) ?? 0) + weight * idf);
+      }
+    }
+    return scores;
+  }
+
+  private passesFilters(
+    { product, price }: Hit,
+    filters: ProductSearchQuery["filters"] = {}
+  ): boolean {
+    const { minPrice, maxPrice, inStock, kind, category, tags } = filters;
+    return (
+      (minPrice === undefined || price >= minPrice) &&
+      (maxPrice === undefined || price <= maxPrice) &&
+      (inStock === undefined || product.inStock === inStock) &&
+      (kind === undefined || product.category.startsWith(`${kind}_`)) &&
+      (category === undefined || product.category === category) &&
+      (tags === undefined || tags.every((tag) => product.tags.includes(tag)))
+    );
+  }
+
+  private facets(products: Product[]): ProductSearchPage["facets"] {
+    const categories: Record<string, number> = {};
+    const tags: Record<string, number> = {};
+
+    for (const product of products) {
+      categories[product.category] = (categories[product.category] ?? 0) + 1;
+      for (const tag of new Set(product.tags)) {
+        tags[tag] = (tags[tag] ?? 0) + 1;
+      }
+    }
+    return { categories, tags };
+  }
+}
+
+// Repository que mantiene el índice sincronizado con cada escritura.
+// Las escrituras deben pasar por aquí, no por el repository envuelto
+export class IndexedProductRepository implements ProductRepository {
+  readonly index: ProductSearchIndex;
+  private ready?: Promise<void>;
+
+  constructor(
+    private inner: ProductRepository,
+    options: { priceOf?: PriceResolver } = {}
+  ) {
+    this.index = new ProductSearchIndex(options.priceOf);
+  }
+
+  async save(product: Product): Promise<void> {
+    await this.ensureIndexed();
+    await this.inner.save(product);
+    this.index.add(product);
+  }
+
+  async saveMany(products: Product[]): Promise<void> {
+    await this.ensureIndexed();
+    await this.inner.saveMany(products);
+    for (const product of products) this.index.add(product);
+  }
+
+  findById(id: string): Promise<Product | undefined> {
+    return this.inner.findById(id);
+  }
+
+  findAll(): Promise<Product[]> {
+    return this.inner.findAll();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.ensureIndexed();
+    const deleted = await this.inner.delete(id);
+    this.index.remove(id);
+    return deleted;
+  }
+
+  async search(query: string): Promise<Product[]> {
+    const page = await this.query({ text: query, limit: Infinity });
+    const products = await Promise.all(
+      page.items.map((item) => this.inner.findById(item.id))
+    );
+    return products.filter((product): product is Product => !!product);
+  }
+
+  async query(query: ProductSearchQuery): Promise<ProductSearchPage> {
+    await this.ensureIndexed();
+    return this.index.search(query);
+  }
+
+  // El índice se construye una vez con lo que ya estaba persistido; si la
+  // carga falla, la siguiente consulta la reintenta
+  private ensureIndexed(): Promise<void> {
+    this.ready ??= this.inner.findAll().then(
+      (products) => {
+        for (const product of products) this.index.add(product);
+      },
+      (error) => {
+        this.ready = undefined;
+        throw error;
+      }
+    );
+    return this.ready;
+  }
+}
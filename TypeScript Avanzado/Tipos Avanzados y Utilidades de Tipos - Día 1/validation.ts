@@ -0,0 +1,163 @@
+import type { CreateProductRequest, ProductCategory } from ".";
+import { categoryRegistry, MetadataSchema } from "./categories";
+
+// Resultado discriminado por ok: el caller hace narrowing con if (result.ok)
+export type Result<T, E> = { ok: true; value: T } | { ok: false; error: E };
+
+export function ok<T>(value: T): Result<T, never> {
+  return { ok: true, value };
+}
+
+export function err<E>(error: E): Result<never, E> {
+  return { ok: false, error };
+}
+
+export interface FieldError {
+  // JSON path del campo, p.ej. $.metadata.dimensions.width o $.tags[1]
+  path: string;
+  expected: string;
+  received: unknown;
+  message: string;
+}
+
+// Nombre legible del tipo recibido para los mensajes
+export function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+export function fieldError(
+  path: string,
+  expected: string,
+  received: unknown
+): FieldError {
+  const message =
+    received === undefined
+      ? `${path} is required (expected ${expected})`
+      : `${path} must be ${expected}, received ${describeType(received)}`;
+  return { path, expected, received, message };
+}
+
+// Estricto: reporta campos faltantes, sobrantes y con el tipo equivocado
+export function schemaErrors(
+  value: unknown,
+  schema: MetadataSchema,
+  path: string
+): FieldError[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return [fieldError(path, "object", value)];
+  }
+
+  const record = value as Record<string, unknown>;
+  const errors: FieldError[] = Object.keys(record)
+    .filter((field) => !(field in schema))
+    .map((field) => ({
+      path: `${path}.${field}`,
+      expected: "no value",
+      received: record[field],
+      message: `${path}.${field} is not allowed for this category`,
+    }));
+
+  for (const [field, type] of Object.entries(schema)) {
+    const fieldPath = `${path}.${field}`;
+    if (typeof type === "object") {
+      errors.push(...schemaErrors(record[field], type, fieldPath));
+    } else if (typeof record[field] !== type) {
+      errors.push(fieldError(fieldPath, type, record[field]));
+    }
+  }
+  return errors;
+}
+
+// Metadata contra el schema efectivo de una categoría registrada
+export function metadataErrors(
+  category: ProductCategory,
+  metadata: unknown,
+  path = "$.metadata"
+): FieldError[] {
+  const schema = categoryRegistry.metadataSchema(category);
+  if (!schema) {
+    throw new Error(`Category ${category} is not registered`);
+  }
+  return schemaErrors(metadata, schema, path);
+}
+
+// Campos que acepta el alta; el id lo asigna el service
+const CREATE_PRODUCT_FIELDS: readonly string[] = [
+  "name",
+  "price",
+  "category",
+  "description",
+  "tags",
+  "metadata",
+];
+
+// Se acepta (un export lo incluye) pero lo decide el inventario
+const DERIVED_FIELDS: readonly string[] = ["inStock"];
+
+// Reporta todos los campos inválidos, no solo el primero
+export function validateCreateProduct(
+  data: unknown
+): Result<CreateProductRequest, FieldError[]> {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return err([fieldError("$", "object", data)]);
+  }
+
+  const input = data as Record<string, unknown>;
+  // Igual de estricto que el metadata: un campo desconocido es un error
+  const errors: FieldError[] = Object.keys(input)
+    .filter(
+      (field) =>
+        !CREATE_PRODUCT_FIELDS.includes(field) &&
+        !DERIVED_FIELDS.includes(field)
+    )
+    .map((field) => ({
+      path: `$.${field}`,
+      expected: "no value",
+      received: input[field],
+      message: `$.${field} is not allowed`,
+    }));
+  const expectType = (field: string, type: string) => {
+    if (typeof input[field] !== type) {
+      errors.push(fieldError(`$.${field}`, type, input[field]));
+    }
+  };
+
+  expectType("name", "string");
+  expectType("description", "string");
+  if (input.inStock !== undefined) expectType("inStock", "boolean");
+
+  const { price, tags, category, metadata } = input;
+  if (typeof price !== "number" || !Number.isFinite(price) || price < 0) {
+    errors.push(fieldError("$.price", "non-negative number", price));
+  }
+
+  if (!Array.isArray(tags)) {
+    errors.push(fieldError("$.tags", "array of strings", tags));
+  } else {
+    tags.forEach((tag, index) => {
+      if (typeof tag !== "string") {
+        errors.push(fieldError(`$.tags[${index}]`, "string", tag));
+      }
+    });
+  }
+
+  if (typeof category !== "string" || !categoryRegistry.has(category)) {
+    const known = categoryRegistry.list().map((definition) => definition.id);
+    errors.push(
+      fieldError("$.category", `one of ${known.join(", ")}`, category)
+    );
+  } else {
+    // El schema del metadata depende de la categoría
+    errors.push(...metadataErrors(category, metadata));
+  }
+
+  if (errors.length > 0) return err(errors);
+
+  // Solo los campos conocidos, nunca el objeto recibido tal cual
+  const value = Object.fromEntries(
+    CREATE_PRODUCT_FIELDS.map((field) => [field, input[field]])
+  );
+  return ok(value as unknown as CreateProductRequest);
+}